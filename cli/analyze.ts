@@ -0,0 +1,149 @@
+import { existsSync } from 'node:fs';
+import { readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyzeImage, getOverallStatus } from '../services/analysis';
+import { DEFAULT_REVIEW_THRESHOLD } from '../services/policies';
+import { DEFAULT_PLATFORM_ID, PLATFORM_IDS } from '../services/platforms';
+import { createGeminiAnalysisProvider } from '../services/providers/gemini';
+import { createLocalAnalysisProvider } from '../services/providers/local';
+import { AnalysisProvider } from '../services/providers/types';
+import { describeRequestError } from '../services/requests';
+import { createFileFixtureLoader, loadPolicies, MIME_TYPES, parsePlatforms, readImageFile, runPool, UsageError } from './common';
+import { buildCsvReport, FileReport, summarize } from './report';
+
+// Exit codes the upload pipeline relies on.
+const EXIT_PASS = 0;
+const EXIT_FOUND = 1;
+const EXIT_ERROR = 2;
+
+const DEFAULT_CONCURRENCY = 3;
+
+const USAGE = `Usage: npm run analyze -- <folder> [options]
+
+Analyzes every image in the folder and its subfolders with the same pipeline as the app.
+
+Options:
+  --json <file>         Write the full results as JSON (default: print JSON to stdout unless --csv is given)
+  --csv <file>          Write one CSV row per image
+  --platforms <ids>     Comma-separated metadata platforms: ${PLATFORM_IDS.join(', ')} (default: ${DEFAULT_PLATFORM_ID})
+  --policies <file>     JSON array of policy definitions, as saved by the app (default: built-in policies)
+  --threshold <0-1>     Confidence below which verdicts are marked 'review' (default: ${DEFAULT_REVIEW_THRESHOLD})
+  --concurrency <n>     Images analyzed at the same time (default: ${DEFAULT_CONCURRENCY})
+  --provider <name>     'gemini' (needs GEMINI_API_KEY) or 'local' to replay public/fixtures (default: AI_PROVIDER or gemini)
+  --fail-on-review      Also exit with 1 when a verdict needs review
+  -h, --help            Show this help
+
+Exit codes: 0 all images pass, 1 a policy was 'found', 2 invalid arguments or an image could not be analyzed.`;
+
+// Helper function to list every supported image below a folder, sorted for a stable report order. Other files are skipped.
+const findImages = async (folder: string): Promise<string[]> => {
+  const entries = await readdir(folder, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && MIME_TYPES[path.extname(entry.name).toLowerCase()])
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .sort();
+};
+
+const createProvider = (name: string): AnalysisProvider => {
+  if (name === 'local') return createLocalAnalysisProvider(createFileFixtureLoader(path.resolve('public/fixtures')));
+  if (name !== 'gemini') throw new UsageError(`Unknown provider '${name}'; use 'gemini' or 'local'.`);
+  if (!process.env.GEMINI_API_KEY) throw new UsageError('GEMINI_API_KEY is not set. Add it to .env.local or the environment, or use --provider local.');
+  return createGeminiAnalysisProvider(process.env.GEMINI_API_KEY);
+};
+
+const parseOptions = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'string' },
+      csv: { type: 'string' },
+      platforms: { type: 'string' },
+      policies: { type: 'string' },
+      threshold: { type: 'string' },
+      concurrency: { type: 'string' },
+      provider: { type: 'string' },
+      'fail-on-review': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(EXIT_PASS);
+  }
+  if (positionals.length !== 1) throw new UsageError('Pass exactly one folder to analyze.');
+
+  const reviewThreshold = values.threshold === undefined ? DEFAULT_REVIEW_THRESHOLD : Number(values.threshold);
+  if (!(reviewThreshold >= 0 && reviewThreshold <= 1)) throw new UsageError('--threshold must be a number between 0 and 1.');
+
+  const concurrency = values.concurrency === undefined ? DEFAULT_CONCURRENCY : Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive whole number.');
+
+  return {
+    folder: path.resolve(positionals[0]),
+    jsonPath: values.json,
+    csvPath: values.csv,
+    platforms: parsePlatforms(values.platforms),
+    policiesPath: values.policies,
+    reviewThreshold,
+    concurrency,
+    providerName: values.provider ?? (process.env.AI_PROVIDER === 'local' ? 'local' : 'gemini'),
+    failOnReview: values['fail-on-review'] ?? false,
+  };
+};
+
+const main = async (): Promise<number> => {
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+  const options = parseOptions();
+  if (!existsSync(options.folder)) throw new UsageError(`Folder not found: ${options.folder}`);
+  const policies = await loadPolicies(options.policiesPath);
+  const provider = createProvider(options.providerName);
+  const files = await findImages(options.folder);
+  if (files.length === 0) throw new UsageError(`No supported images (${Object.keys(MIME_TYPES).join(', ')}) found in ${options.folder}.`);
+
+  // Stop the requests in flight on Ctrl+C instead of waiting for them.
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const reports: FileReport[] = new Array(files.length);
+  let done = 0;
+  const analyzeFile = async (index: number) => {
+    const filePath = files[index];
+    const relative = path.relative(options.folder, filePath);
+    const report: FileReport = { file: relative, status: 'error', error: null, rightsClaims: [], policies: [], metadata: [] };
+    try {
+      const { file, rights } = await readImageFile(filePath);
+      const result = await analyzeImage(file, policies, provider, { rights, reviewThreshold: options.reviewThreshold, platforms: options.platforms, signal: controller.signal });
+      Object.assign(report, { status: getOverallStatus(result), rightsClaims: rights?.claims ?? [], policies: result.policies, metadata: result.metadata });
+    } catch (e: any) {
+      report.error = describeRequestError(e);
+    }
+    reports[index] = report;
+    done++;
+    const flagged = report.policies.filter(policy => policy.status === 'found' || policy.status === 'review').map(policy => `${policy.label}: ${policy.status}`);
+    console.error(`[${done}/${files.length}] ${report.status.padEnd(6)} ${relative}${flagged.length ? ` (${flagged.join(', ')})` : ''}${report.error ? ` - ${report.error}` : ''}`);
+  };
+
+  await runPool(files.length, options.concurrency, controller.signal, analyzeFile);
+  const finished = reports.filter(Boolean);
+
+  const json = JSON.stringify({ provider: provider.model, analyzedAt: new Date().toISOString(), summary: summarize(finished), results: finished }, null, 2);
+  if (options.jsonPath) await writeFile(options.jsonPath, json + '\n');
+  if (options.csvPath) await writeFile(options.csvPath, buildCsvReport(finished, policies, options.platforms));
+  if (!options.jsonPath && !options.csvPath) console.log(json);
+
+  const summary = summarize(finished);
+  console.error(`${summary.total} analyzed: ${summary.pass} pass, ${summary.found} found, ${summary.review} review, ${summary.error} failed.`);
+
+  if (summary.found > 0 || (options.failOnReview && summary.review > 0)) return EXIT_FOUND;
+  if (summary.error > 0 || finished.length < files.length) return EXIT_ERROR;
+  return EXIT_PASS;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((e: any) => {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : e);
+    process.exit(EXIT_ERROR);
+  });
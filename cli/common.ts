@@ -0,0 +1,68 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { readRightsMetadata, RightsInfo } from '../services/metadata';
+import { DEFAULT_POLICIES, validatePolicies } from '../services/policies';
+import { DEFAULT_PLATFORM_ID, PLATFORM_IDS, PLATFORM_PROFILES, PlatformId, PlatformProfile } from '../services/platforms';
+import { FixtureLoader } from '../services/providers/local';
+import { PolicyDefinition } from '../types';
+
+// Formats the model accepts, by file extension.
+export const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+};
+
+// Invalid arguments or input files; the commands print it with their usage text.
+export class UsageError extends Error {}
+
+// Reads fixtures from a folder on disk, laid out like public/fixtures which the browser's local provider fetches.
+export const createFileFixtureLoader = (root: string): FixtureLoader => ({
+  text: (fixturePath) => readFile(path.join(root, fixturePath), 'utf8').catch(() => null),
+  bytes: async (fixturePath) => {
+    const data = await readFile(path.join(root, fixturePath)).catch(() => null);
+    return data ? data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) : null;
+  },
+});
+
+export const loadPolicies = async (file: string | undefined): Promise<PolicyDefinition[]> => {
+  if (!file) return DEFAULT_POLICIES;
+  let policies: PolicyDefinition[];
+  try {
+    policies = JSON.parse(await readFile(file, 'utf8'));
+  } catch (e: any) {
+    throw new UsageError(`Could not read policies from ${file}: ${e.message}`);
+  }
+  const problem = Array.isArray(policies) ? validatePolicies(policies) : 'The file must contain a JSON array.';
+  if (problem) throw new UsageError(`Invalid policies in ${file}: ${problem}`);
+  return policies;
+};
+
+// Helper function to turn a comma-separated list of platform ids into their profiles.
+export const parsePlatforms = (list: string | undefined): PlatformProfile[] => {
+  const platformIds = (list ?? DEFAULT_PLATFORM_ID).split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = platformIds.filter(id => !PLATFORM_IDS.includes(id as PlatformId));
+  if (platformIds.length === 0 || unknown.length > 0) throw new UsageError(`Unknown platforms: ${unknown.join(', ') || '(none given)'}.`);
+  return (platformIds as PlatformId[]).map(id => PLATFORM_PROFILES[id]);
+};
+
+// Reads an image from disk the way the app receives it, together with its embedded rights metadata.
+export const readImageFile = async (filePath: string): Promise<{ file: File; rights: RightsInfo | null }> => {
+  const bytes = await readFile(filePath);
+  const rights = await readRightsMetadata(bytes).catch(() => null);
+  const file = new File([bytes], path.basename(filePath), { type: MIME_TYPES[path.extname(filePath).toLowerCase()] });
+  return { file, rights };
+};
+
+// Runs the task for every index with a fixed pool of workers; each takes the next index as soon as it finishes one.
+// Stops handing out work once the signal aborts.
+export const runPool = async (count: number, concurrency: number, signal: AbortSignal, task: (index: number) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < count && !signal.aborted) await task(next++);
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+};
@@ -0,0 +1,309 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyzeImage } from '../services/analysis';
+import {
+  EvaluatedImage, findChangedVerdicts, findRegressions, Manifest, MetadataScore, Outcome, parseManifest, PolicyScore, scoreMetadata, scorePolicies,
+} from '../services/evaluation';
+import { DEFAULT_REVIEW_THRESHOLD } from '../services/policies';
+import { DEFAULT_PLATFORM_ID, PLATFORM_IDS, PlatformProfile } from '../services/platforms';
+import { ANALYSIS_MODEL, createGeminiAnalysisProvider } from '../services/providers/gemini';
+import { createLocalAnalysisProvider, getRecordingPath } from '../services/providers/local';
+import { AnalysisProvider } from '../services/providers/types';
+import { describeRequestError } from '../services/requests';
+import { PolicyDefinition } from '../types';
+import { createFileFixtureLoader, loadPolicies, MIME_TYPES, parsePlatforms, readImageFile, runPool, UsageError } from './common';
+
+const EXIT_OK = 0;
+const EXIT_REGRESSED = 1;
+const EXIT_ERROR = 2;
+
+const DEFAULT_CONCURRENCY = 3;
+
+const USAGE = `Usage: npm run evaluate -- <manifest.json> [options]
+
+Runs the labeled images in the manifest through the analysis pipeline and reports a confusion matrix,
+precision and recall per policy, and how often the generated metadata breaks the platform rules.
+
+Options:
+  --variant <file>      Prompt/model version to evaluate; give it twice to compare a baseline with a candidate
+                        (default: the built-in policies and ${ANALYSIS_MODEL})
+  --recordings <dir>    Recorded responses for the default variant (not with --variant)
+  --live                Call Gemini instead of replaying recorded responses (needs GEMINI_API_KEY)
+  --record              With --live, save every response to the variant's recordings folder
+  --platforms <ids>     Comma-separated metadata platforms: ${PLATFORM_IDS.join(', ')} (default: ${DEFAULT_PLATFORM_ID})
+  --threshold <0-1>     Confidence below which verdicts are marked 'review' (default: ${DEFAULT_REVIEW_THRESHOLD})
+  --concurrency <n>     Images analyzed at the same time (default: ${DEFAULT_CONCURRENCY})
+  --json <file>         Also write the scores and every verdict as JSON
+  -h, --help            Show this help
+
+Manifest: { "images": [{ "file": "kids/beach.jpg", "expected": { "kids": "found", "copyright": "pass" } }] }
+Variant:  { "name": "candidate", "policies": "policies.json", "model": "${ANALYSIS_MODEL}", "recordings": "recordings/candidate" }
+Paths are relative to the file they appear in.
+
+Exit codes: 0 done, 1 the candidate scored lower than the baseline on a policy, 2 invalid arguments or interrupted.`;
+
+// One prompt/model version under evaluation.
+interface Variant {
+  name: string;
+  policies: PolicyDefinition[];
+  model: string;
+  recordings: string | null;
+}
+
+interface VariantReport {
+  name: string;
+  model: string;
+  policies: PolicyScore[];
+  metadata: MetadataScore[];
+  images: EvaluatedImage[];
+}
+
+const loadJson = async (file: string, what: string): Promise<any> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (e: any) {
+    throw new UsageError(`Could not read the ${what} ${file}: ${e.message}`);
+  }
+};
+
+const loadManifest = async (file: string): Promise<Manifest> => {
+  const json = await loadJson(file, 'manifest');
+  try {
+    return parseManifest(json);
+  } catch (e: any) {
+    throw new UsageError(`Invalid manifest ${file}: ${e.message}`);
+  }
+};
+
+const loadVariant = async (file: string): Promise<Variant> => {
+  const json = await loadJson(file, 'variant');
+  const resolve = (value: unknown) => typeof value === 'string' ? path.resolve(path.dirname(file), value) : null;
+  return {
+    name: typeof json.name === 'string' && json.name ? json.name : path.basename(file, '.json'),
+    policies: await loadPolicies(resolve(json.policies) ?? undefined),
+    model: typeof json.model === 'string' && json.model ? json.model : ANALYSIS_MODEL,
+    recordings: resolve(json.recordings),
+  };
+};
+
+// Saves each response where the local provider looks for it, so the run can be replayed offline.
+const createRecordingProvider = (provider: AnalysisProvider, folder: string): AnalysisProvider => ({
+  ...provider,
+  generateJson: async (request, signal) => {
+    const response = await provider.generateJson(request, signal);
+    const recording = await getRecordingPath(request);
+    if (recording) {
+      const target = path.join(folder, recording);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, JSON.stringify(response, null, 2) + '\n');
+    }
+    return response;
+  },
+});
+
+const createProvider = (variant: Variant, live: boolean, record: boolean): AnalysisProvider => {
+  if (!live) {
+    if (!variant.recordings) throw new UsageError(`Variant '${variant.name}' has no recordings folder; set one or use --live.`);
+    // Requests without a recording fail instead of silently scoring the default fixture.
+    return { ...createLocalAnalysisProvider(createFileFixtureLoader(variant.recordings), true), model: `recorded ${variant.model}` };
+  }
+  if (!process.env.GEMINI_API_KEY) throw new UsageError('GEMINI_API_KEY is not set. Add it to .env.local or the environment, or replay recorded responses without --live.');
+  const provider = createGeminiAnalysisProvider(process.env.GEMINI_API_KEY, variant.model);
+  if (!record) return provider;
+  if (!variant.recordings) throw new UsageError(`Variant '${variant.name}' has no recordings folder to --record into.`);
+  return createRecordingProvider(provider, variant.recordings);
+};
+
+// Helper function to fail early when the manifest scores a policy the variant does not analyze.
+const checkPolicies = (manifest: Manifest, variant: Variant) => {
+  const enabled = new Set(variant.policies.filter(policy => policy.enabled).map(policy => policy.id));
+  const missing = Array.from(new Set(manifest.images.flatMap(image => Object.keys(image.expected)))).filter(id => !enabled.has(id));
+  if (missing.length > 0) throw new UsageError(`Variant '${variant.name}' does not analyze the policies ${missing.join(', ')} that the manifest expects.`);
+};
+
+const parseOptions = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      variant: { type: 'string', multiple: true },
+      recordings: { type: 'string' },
+      live: { type: 'boolean' },
+      record: { type: 'boolean' },
+      platforms: { type: 'string' },
+      threshold: { type: 'string' },
+      concurrency: { type: 'string' },
+      json: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(EXIT_OK);
+  }
+  if (positionals.length !== 1) throw new UsageError('Pass exactly one manifest file.');
+
+  const variantPaths = values.variant ?? [];
+  if (variantPaths.length > 2) throw new UsageError('Compare at most two variants: a baseline and a candidate.');
+  if (values.record && !values.live) throw new UsageError('--record only applies to --live runs.');
+  if (values.recordings && variantPaths.length > 0) throw new UsageError('--recordings only applies to the default variant; set "recordings" in the variant file instead.');
+
+  const reviewThreshold = values.threshold === undefined ? DEFAULT_REVIEW_THRESHOLD : Number(values.threshold);
+  if (!(reviewThreshold >= 0 && reviewThreshold <= 1)) throw new UsageError('--threshold must be a number between 0 and 1.');
+
+  const concurrency = values.concurrency === undefined ? DEFAULT_CONCURRENCY : Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive whole number.');
+
+  return {
+    manifestPath: path.resolve(positionals[0]),
+    variantPaths: variantPaths.map(file => path.resolve(file)),
+    recordings: values.recordings ? path.resolve(values.recordings) : null,
+    live: values.live ?? false,
+    record: values.record ?? false,
+    platforms: parsePlatforms(values.platforms),
+    reviewThreshold,
+    concurrency,
+    jsonPath: values.json,
+  };
+};
+
+const evaluateVariant = async (
+  manifest: Manifest,
+  folder: string,
+  variant: Variant,
+  provider: AnalysisProvider,
+  options: { platforms: PlatformProfile[]; reviewThreshold: number; concurrency: number },
+  signal: AbortSignal,
+): Promise<VariantReport> => {
+  const images: EvaluatedImage[] = new Array(manifest.images.length);
+  let done = 0;
+  const evaluateImage = async (index: number) => {
+    const entry = manifest.images[index];
+    const image: EvaluatedImage = { file: entry.file, expected: entry.expected, actual: {}, metadata: [], error: null };
+    try {
+      const filePath = path.resolve(folder, entry.file);
+      if (!MIME_TYPES[path.extname(filePath).toLowerCase()]) throw new Error(`Unsupported image type; use ${Object.keys(MIME_TYPES).join(', ')}.`);
+      const { file, rights } = await readImageFile(filePath);
+      const result = await analyzeImage(file, variant.policies, provider, { rights, reviewThreshold: options.reviewThreshold, platforms: options.platforms, signal });
+      result.policies.forEach(policy => {
+        if (policy.id in entry.expected) image.actual[policy.id] = (policy.status ?? 'error') as Outcome;
+      });
+      image.metadata = result.metadata;
+    } catch (e: any) {
+      image.error = describeRequestError(e);
+    }
+    images[index] = image;
+    done++;
+    const misses = Object.entries(image.expected)
+      .filter(([policyId, expected]) => image.actual[policyId] !== expected)
+      .map(([policyId, expected]) => `${policyId}: expected ${expected}, got ${image.actual[policyId] ?? 'error'}`);
+    console.error(`[${variant.name} ${done}/${manifest.images.length}] ${misses.length ? 'miss' : 'ok  '} ${entry.file}${misses.length ? ` (${misses.join(', ')})` : ''}${image.error ? ` - ${image.error}` : ''}`);
+  };
+
+  await runPool(manifest.images.length, options.concurrency, signal, evaluateImage);
+  const finished = images.filter(Boolean);
+  return { name: variant.name, model: provider.model, policies: scorePolicies(finished), metadata: scoreMetadata(finished), images: finished };
+};
+
+const formatPercent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+// Helper function to align a table: the first column to the left, the rest to the right.
+const formatTable = (rows: string[][]) => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  ')).join('\n');
+};
+
+const formatVariant = (report: VariantReport) => {
+  const policyRows = report.policies.map(({ policyId, total, matrix, precision, recall, accuracy }) => [
+    policyId, `${total}`,
+    `${matrix.found.found}`, `${matrix.pass.found}`, `${matrix.found.pass}`, `${matrix.pass.pass}`,
+    `${matrix.pass.review + matrix.found.review}`, `${matrix.pass.error + matrix.found.error}`,
+    formatPercent(precision), formatPercent(recall), formatPercent(accuracy),
+  ]);
+  const lines = [
+    `== ${report.name} (${report.model}) ==`,
+    formatTable([['Policy', 'Images', 'TP', 'FP', 'FN', 'TN', 'Review', 'Error', 'Precision', 'Recall', 'Accuracy'], ...policyRows]),
+  ];
+  if (report.metadata.length > 0) {
+    const metadataRows = report.metadata.map(({ platformId, generated, repaired, valid }) => [platformId, `${generated}`, `${repaired}`, `${valid}`, formatPercent(valid / generated)]);
+    lines.push('', formatTable([['Metadata', 'Generated', 'Repaired', 'Valid', 'Valid %'], ...metadataRows]));
+    report.metadata.forEach(({ platformId, issues }) => {
+      Object.entries(issues).forEach(([issue, count]) => lines.push(`  ${platformId}: ${issue} (${count}x)`));
+    });
+  }
+  return lines.join('\n');
+};
+
+const formatComparison = (baseline: VariantReport, candidate: VariantReport) => {
+  const delta = (before: number | null, after: number | null) => {
+    if (before === null || after === null) return `${formatPercent(before)} -> ${formatPercent(after)}`;
+    const change = (after - before) * 100;
+    return `${formatPercent(before)} -> ${formatPercent(after)} (${change >= 0 ? '+' : ''}${change.toFixed(1)})`;
+  };
+  const rows = candidate.policies.map(score => {
+    const before = baseline.policies.find(current => current.policyId === score.policyId);
+    return [score.policyId, delta(before?.precision ?? null, score.precision), delta(before?.recall ?? null, score.recall), delta(before?.accuracy ?? null, score.accuracy)];
+  });
+  const lines = [
+    `== ${baseline.name} vs ${candidate.name} ==`,
+    formatTable([['Policy', 'Precision', 'Recall', 'Accuracy'], ...rows]),
+  ];
+  const changes = findChangedVerdicts(baseline.images, candidate.images);
+  if (changes.length > 0) {
+    lines.push('', 'Changed verdicts:');
+    changes.forEach(change => {
+      const mark = change.after === change.expected ? 'fixed' : change.before === change.expected ? 'broke' : 'changed';
+      lines.push(`  ${mark.padEnd(7)} ${change.policyId}: ${change.file} (expected ${change.expected}, ${change.before} -> ${change.after})`);
+    });
+  }
+  return lines.join('\n');
+};
+
+const main = async (): Promise<number> => {
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+  const options = parseOptions();
+  const manifest = await loadManifest(options.manifestPath);
+  const variants = options.variantPaths.length > 0
+    ? await Promise.all(options.variantPaths.map(loadVariant))
+    : [{ name: 'current', policies: await loadPolicies(undefined), model: ANALYSIS_MODEL, recordings: options.recordings }];
+  variants.forEach(variant => checkPolicies(manifest, variant));
+  const providers = variants.map(variant => createProvider(variant, options.live, options.record));
+
+  // Stop the requests in flight on Ctrl+C instead of waiting for them.
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  // Variants run one after the other so they do not compete for the same rate limit.
+  const reports: VariantReport[] = [];
+  for (const [index, variant] of variants.entries()) {
+    reports.push(await evaluateVariant(manifest, path.dirname(options.manifestPath), variant, providers[index], options, controller.signal));
+  }
+  if (controller.signal.aborted) {
+    console.error('Interrupted; no report written.');
+    return EXIT_ERROR;
+  }
+
+  const [baseline, candidate] = reports;
+  const sections = reports.map(formatVariant);
+  if (candidate) sections.push(formatComparison(baseline, candidate));
+  const regressions = candidate ? findRegressions(baseline.policies, candidate.policies) : [];
+  if (regressions.length > 0) {
+    sections.push(`Regressions in ${candidate.name}:\n${regressions.map(({ policyId, metric, before, after }) => `  ${policyId} ${metric}: ${formatPercent(before)} -> ${formatPercent(after)}`).join('\n')}`);
+  }
+  console.log(sections.join('\n\n'));
+
+  if (options.jsonPath) {
+    const json = { manifest: options.manifestPath, evaluatedAt: new Date().toISOString(), variants: reports, regressions };
+    await writeFile(options.jsonPath, JSON.stringify(json, null, 2) + '\n');
+  }
+  return regressions.length > 0 ? EXIT_REGRESSED : EXIT_OK;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((e: any) => {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : e);
+    process.exit(EXIT_ERROR);
+  });
@@ -0,0 +1,55 @@
+import { toCsvField } from '../services/csvExport';
+import { PlatformProfile } from '../services/platforms';
+import { PlatformMetadata, PolicyDefinition, PolicyResult } from '../types';
+
+export type FileStatus = 'pass' | 'found' | 'review' | 'error';
+
+// The outcome for one image, as written to the JSON report.
+export interface FileReport {
+  // Path relative to the analyzed folder.
+  file: string;
+  status: FileStatus;
+  error: string | null;
+  // Ownership claims found in the file's embedded rights metadata.
+  rightsClaims: string[];
+  policies: PolicyResult[];
+  metadata: PlatformMetadata[];
+}
+
+export interface RunSummary {
+  total: number;
+  pass: number;
+  found: number;
+  review: number;
+  error: number;
+}
+
+export const summarize = (reports: FileReport[]): RunSummary => {
+  const summary: RunSummary = { total: reports.length, pass: 0, found: 0, review: 0, error: 0 };
+  reports.forEach(report => summary[report.status]++);
+  return summary;
+};
+
+// One row per image: the overall status, each policy's status and confidence, then every platform's metadata.
+export const buildCsvReport = (reports: FileReport[], policies: PolicyDefinition[], platforms: PlatformProfile[]): string => {
+  const enabled = policies.filter(policy => policy.enabled);
+  const header = [
+    'File', 'Status', 'Error',
+    ...enabled.flatMap(policy => [`${policy.label} status`, `${policy.label} confidence`]),
+    ...platforms.flatMap(({ label }) => [`${label} title`, `${label} description`, `${label} tags`]),
+  ];
+
+  const rows = reports.map(report => {
+    const policyCells = enabled.flatMap(definition => {
+      const policy = report.policies.find(current => current.id === definition.id);
+      return [policy?.status ?? '', policy?.confidence === null || policy?.confidence === undefined ? '' : policy.confidence.toFixed(2)];
+    });
+    const metadataCells = platforms.flatMap(platform => {
+      const entry = report.metadata.find(current => current.platformId === platform.id);
+      return [entry?.title ?? '', entry?.imageDescription ?? '', entry?.tags.join(', ') ?? ''];
+    });
+    return [report.file, report.status, report.error ?? '', ...policyCells, ...metadataCells];
+  });
+
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+};
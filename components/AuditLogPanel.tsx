@@ -0,0 +1,50 @@
+import React, { useState, useEffect, FC } from 'react';
+import { buildAuditCsv, listAuditEntries, statusText } from '../services/review';
+import { downloadBlob } from '../services/csvExport';
+import { AuditEntry } from '../types';
+
+interface AuditLogPanelProps {
+  onClose: () => void;
+}
+
+export const AuditLogPanel: FC<AuditLogPanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listAuditEntries()
+      .then(setEntries)
+      .catch((e: any) => setLoadError(`Failed to load the audit log: ${e.message}`));
+  }, []);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([buildAuditCsv(entries)], { type: 'text/csv;charset=utf-8' }), `review-audit-log-${date}.csv`);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="settings-panel">
+        <h2>Review Audit Log</h2>
+        {loadError && <div className="error-card"><p>{loadError}</p></div>}
+        <p className="settings-hint">{entries.length} reviewer {entries.length === 1 ? 'override' : 'overrides'} recorded</p>
+        <div className="history-list">
+          {entries.map(entry => (
+            <div key={entry.id} className="settings-policy">
+              <strong>{entry.fileName} · {entry.policyLabel}: {statusText(entry.previousStatus)} → {statusText(entry.decision)}</strong>
+              <span className="history-row-date">
+                {new Date(entry.reviewedAt).toLocaleString()} · model said {statusText(entry.modelStatus)}
+                {entry.confidence !== null && ` (${Math.round(entry.confidence * 100)}% confident)`}
+              </span>
+              {entry.note && <p>{entry.note}</p>}
+            </div>
+          ))}
+        </div>
+        <div className="settings-actions">
+          <button onClick={onClose} className="btn btn-secondary">Close</button>
+          <button onClick={handleExport} className="btn btn-primary" disabled={entries.length === 0}>Export CSV</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { FC } from 'react';
+import { QueueItem, QueueItemStatus } from '../types';
+
+const statusLabels: Record<QueueItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  pass: 'Pass',
+  found: 'Found',
+  review: 'Review',
+  error: 'Error',
+};
+
+interface BatchQueueProps {
+  items: QueueItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export const BatchQueue: FC<BatchQueueProps> = ({ items, selectedId, onSelect }) => {
+  const counts = items.reduce((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<QueueItemStatus, number>>);
+
+  return (
+    <div className="batch-queue">
+      <div className="batch-summary">
+        {(Object.keys(statusLabels) as QueueItemStatus[]).map(status => (
+          <span key={status} className={`queue-badge queue-${status}`}>{statusLabels[status]}: {counts[status] || 0}</span>
+        ))}
+      </div>
+      <div className="batch-grid">
+        {items.map(item => (
+          <button
+            key={item.id}
+            className={`batch-row ${item.id === selectedId ? 'selected' : ''}`}
+            onClick={() => onSelect(item.id)}
+            title={item.error || item.file.name}
+          >
+            <img src={item.url} alt={item.file.name} />
+            <span className="batch-row-name">{item.file.name}</span>
+            <span className={`queue-badge queue-${item.status}`}>{statusLabels[item.status]}{item.cachedAt ? ' (cached)' : ''}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
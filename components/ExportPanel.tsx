@@ -0,0 +1,56 @@
+import React, { useState, FC } from 'react';
+import { AGENCY_PROFILES, AgencyId } from '../services/agencies';
+import { buildAgencyExport, downloadBlob, ExportSource, selectExportRows } from '../services/csvExport';
+
+interface ExportPanelProps {
+  sources: ExportSource[];
+  onClose: () => void;
+}
+
+export const ExportPanel: FC<ExportPanelProps> = ({ sources, onClose }) => {
+  const [agencyIds, setAgencyIds] = useState<AgencyId[]>(['shutterstock']);
+
+  const exports = agencyIds.map(id => ({ profile: AGENCY_PROFILES[id], ...buildAgencyExport(AGENCY_PROFILES[id], selectExportRows(sources, id)) }));
+
+  const toggleAgency = (id: AgencyId, checked: boolean) => {
+    setAgencyIds(prev => checked ? [...prev, id] : prev.filter(current => current !== id));
+  };
+
+  const handleDownload = () => {
+    exports.forEach(({ csv, fileName }) => downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName));
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="settings-panel">
+        <h2>Export Metadata CSV</h2>
+        <p className="settings-hint">{sources.length} passed {sources.length === 1 ? 'image' : 'images'} with metadata will be exported. Each agency gets the metadata generated for it, or else the first platform's.</p>
+        <div className="settings-policy-header">
+          {(Object.keys(AGENCY_PROFILES) as AgencyId[]).map(id => (
+            <label key={id} className="settings-toggle">
+              <input type="checkbox" checked={agencyIds.includes(id)} onChange={e => toggleAgency(id, e.target.checked)} />
+              {AGENCY_PROFILES[id].label}
+            </label>
+          ))}
+        </div>
+        {exports.map(({ profile, report }) => {
+          const rejected = report.filter(row => row.problems.length > 0);
+          return (
+            <div key={profile.id} className="settings-policy">
+              <strong>{profile.label}: {rejected.length === 0 ? 'all rows accepted' : `${rejected.length} of ${report.length} rows would be rejected`}</strong>
+              {rejected.length > 0 && (
+                <ul className="validation-issues">
+                  {rejected.map((row, index) => <li key={`${index}-${row.fileName}`}>{row.fileName}: {row.problems.join(' ')}</li>)}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+        <div className="settings-actions">
+          <button onClick={onClose} className="btn btn-secondary">Close</button>
+          <button onClick={handleDownload} className="btn btn-primary" disabled={sources.length === 0 || agencyIds.length === 0}>Download CSV</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, FC } from 'react';
+import { clearHistory, deleteHistoryRecord, filterHistory, HistoryFilter, listHistoryRecords } from '../services/history';
+import { getOverallStatus } from '../services/analysis';
+import { statusText } from '../services/review';
+import { PLATFORM_PROFILES } from '../services/platforms';
+import { HistoryRecord } from '../types';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+const initialFilter: HistoryFilter = { query: '', policyId: '', status: 'any', range: 'all' };
+
+export const HistoryPanel: FC<HistoryPanelProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [filter, setFilter] = useState<HistoryFilter>(initialFilter);
+  const [selectedHash, setSelectedHash] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const reload = () => {
+    listHistoryRecords()
+      .then(setRecords)
+      .catch((e: any) => setLoadError(`Failed to load history: ${e.message}`));
+  };
+
+  useEffect(reload, []);
+
+  const policyOptions = new Map<string, string>();
+  records.forEach(record => record.result.policies.forEach(policy => policyOptions.set(policy.id, policy.label)));
+
+  const visible = filterHistory(records, filter);
+  const selected: HistoryRecord | null = records.find(record => record.hash === selectedHash) || null;
+
+  const updateFilter = (patch: Partial<HistoryFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const handleDelete = async (hash: string) => {
+    try {
+      await deleteHistoryRecord(hash);
+      if (selectedHash === hash) setSelectedHash(null);
+    } catch (e: any) {
+      setLoadError(`Failed to delete the analysis: ${e.message}`);
+    }
+    reload();
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete all saved analyses?')) return;
+    try {
+      await clearHistory();
+      setSelectedHash(null);
+    } catch (e: any) {
+      setLoadError(`Failed to clear the history: ${e.message}`);
+    }
+    reload();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="settings-panel history-panel">
+        <h2>Analysis History</h2>
+        <div className="history-filters">
+          <input className="settings-input" placeholder="Search file name, title, tags, findings..." value={filter.query} onChange={e => updateFilter({ query: e.target.value })} />
+          <select className="settings-input" value={filter.policyId} onChange={e => updateFilter({ policyId: e.target.value })}>
+            <option value="">All policies</option>
+            {Array.from(policyOptions).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+          </select>
+          <select className="settings-input" value={filter.status} onChange={e => updateFilter({ status: e.target.value as HistoryFilter['status'] })}>
+            <option value="any">Any status</option>
+            <option value="found">Violation</option>
+            <option value="review">Needs review</option>
+            <option value="pass">Pass</option>
+          </select>
+          <select className="settings-input" value={filter.range} onChange={e => updateFilter({ range: e.target.value as HistoryFilter['range'] })}>
+            <option value="all">All time</option>
+            <option value="day">Last 24 hours</option>
+            <option value="week">Last week</option>
+            <option value="month">Last month</option>
+          </select>
+        </div>
+        {loadError && <div className="error-card"><p>{loadError}</p></div>}
+        <p className="settings-hint">{visible.length} of {records.length} saved analyses</p>
+        <div className="history-list">
+          {visible.map(record => (
+            <button key={record.hash} className={`history-row ${record.hash === selectedHash ? 'selected' : ''}`} onClick={() => setSelectedHash(record.hash)}>
+              {record.thumbnail ? <img src={record.thumbnail} alt={record.fileName} /> : <span className="history-thumb-placeholder" />}
+              <span className="history-row-text">
+                <span className="batch-row-name">{record.fileName}</span>
+                <span className="history-row-date">{new Date(record.createdAt).toLocaleString()}</span>
+              </span>
+              <span className={`queue-badge queue-${getOverallStatus(record.result)}`}>{statusText(getOverallStatus(record.result))}</span>
+            </button>
+          ))}
+        </div>
+        {selected && (
+          <div className="history-detail">
+            <p className="settings-hint">Model: {selected.model} · SHA-256: {selected.hash.slice(0, 16)}…</p>
+            {selected.result.policies.map(policy => (
+              <p key={policy.id}>
+                <strong>{policy.label}: {statusText(policy.status)}.</strong> {policy.description}
+                {policy.override && <em> Overridden by a reviewer (model: {statusText(policy.modelStatus)}){policy.override.note ? `: ${policy.override.note}` : '.'}</em>}
+              </p>
+            ))}
+            {selected.result.metadata.filter(entry => entry.title).map(entry => (
+              <div key={entry.platformId}>
+                <p><strong>{PLATFORM_PROFILES[entry.platformId].label} title:</strong> {entry.title}</p>
+                <p><strong>Desc:</strong> {entry.imageDescription}</p>
+                <div className="tags-container">
+                  {entry.tags.map((tag, index) => <span key={index} className="tag">#{tag}</span>)}
+                </div>
+              </div>
+            ))}
+            <button onClick={() => handleDelete(selected.hash)} className="metadata-btn copy-btn">Delete from history</button>
+          </div>
+        )}
+        <div className="settings-actions">
+          <button onClick={handleClearAll} className="btn btn-secondary" disabled={records.length === 0}>Clear History</button>
+          <button onClick={onClose} className="btn btn-primary">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState, FC } from 'react';
+import { createPolicyId, getPolicyColor, POLICY_COLORS, validatePolicies } from '../services/policies';
+import { clampMaxImageEdge, MAX_MAX_IMAGE_EDGE, MIN_MAX_IMAGE_EDGE } from '../services/preprocess';
+import { PolicyDefinition, PolicyIconName } from '../types';
+import { policyIcons } from './icons';
+
+interface PolicySettingsProps {
+  policies: PolicyDefinition[];
+  reviewThreshold: number;
+  maxImageEdge: number;
+  onSave: (policies: PolicyDefinition[], reviewThreshold: number, maxImageEdge: number) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const PolicySettings: FC<PolicySettingsProps> = ({ policies, reviewThreshold, maxImageEdge, onSave, onReset, onClose }) => {
+  const [draft, setDraft] = useState<PolicyDefinition[]>(policies);
+  const [thresholdPercent, setThresholdPercent] = useState(Math.round(reviewThreshold * 100));
+  const [imageEdge, setImageEdge] = useState(maxImageEdge);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const updateDraft = (id: string, patch: Partial<PolicyDefinition>) => {
+    setDraft(prev => prev.map(policy => policy.id === id ? { ...policy, ...patch } : policy));
+  };
+
+  const addPolicy = () => {
+    const label = 'New policy';
+    setDraft(prev => [...prev, { id: createPolicyId(label, prev), label, icon: 'flag', prompt: '', enabled: true, color: POLICY_COLORS[prev.length % POLICY_COLORS.length] }]);
+  };
+
+  const removePolicy = (id: string) => {
+    setDraft(prev => prev.filter(policy => policy.id !== id));
+  };
+
+  const handleSave = () => {
+    const problem = validatePolicies(draft);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+    onSave(draft, Math.min(Math.max(thresholdPercent, 0), 100) / 100, clampMaxImageEdge(imageEdge));
+    onClose();
+  };
+
+  const handleReset = () => {
+    onReset();
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="settings-panel">
+        <h2>Policy Settings</h2>
+        <p className="settings-hint">Changes apply to images analyzed after saving.</p>
+        <label className="settings-toggle">
+          Mark verdicts for review below
+          <input type="number" className="settings-input settings-number" min={0} max={100} value={thresholdPercent} onChange={e => setThresholdPercent(Number(e.target.value))} />
+          % model confidence
+        </label>
+        <label className="settings-toggle">
+          Downscale images for analysis to at most
+          <input type="number" className="settings-input settings-number" min={MIN_MAX_IMAGE_EDGE} max={MAX_MAX_IMAGE_EDGE} step={256} value={imageEdge} onChange={e => setImageEdge(Number(e.target.value))} />
+          px on the longest edge
+        </label>
+        <div className="settings-list">
+          {draft.map(policy => (
+            <div key={policy.id} className={`settings-policy ${policy.enabled ? '' : 'disabled'}`}>
+              <div className="settings-policy-header">
+                <label className="settings-toggle">
+                  <input type="checkbox" checked={policy.enabled} onChange={e => updateDraft(policy.id, { enabled: e.target.checked })} />
+                  Enabled
+                </label>
+                <input className="settings-input" value={policy.label} onChange={e => updateDraft(policy.id, { label: e.target.value })} placeholder="Label" />
+                <select className="settings-input" value={policy.icon} onChange={e => updateDraft(policy.id, { icon: e.target.value as PolicyIconName })}>
+                  {(Object.keys(policyIcons) as PolicyIconName[]).map(icon => <option key={icon} value={icon}>{icon}</option>)}
+                </select>
+                <input type="color" className="settings-color" value={getPolicyColor(policy)} onChange={e => updateDraft(policy.id, { color: e.target.value })} title="Region color" />
+                {!policy.builtIn && <button className="metadata-btn copy-btn" onClick={() => removePolicy(policy.id)}>Remove</button>}
+              </div>
+              <textarea
+                className="settings-textarea"
+                value={policy.prompt}
+                onChange={e => updateDraft(policy.id, { prompt: e.target.value })}
+                placeholder="Describe what counts as a violation of this policy."
+                rows={4}
+              />
+            </div>
+          ))}
+        </div>
+        {validationError && <div className="error-card"><p>{validationError}</p></div>}
+        <div className="settings-actions">
+          <button onClick={addPolicy} className="btn btn-secondary">Add Policy</button>
+          <button onClick={handleReset} className="btn btn-secondary">Reset Defaults</button>
+          <button onClick={onClose} className="btn btn-secondary">Cancel</button>
+          <button onClick={handleSave} className="btn btn-primary">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,16 @@
+import React, { FC } from 'react';
+
+// Lists what was changed in the copy of the image that is sent for analysis.
+export const PreprocessPanel: FC<{ changes: string[] }> = ({ changes }) => {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="preprocess-panel">
+      <h3>Prepared for Analysis</h3>
+      <p className="settings-hint">The model sees an adjusted copy; downloads and exports keep the original file.</p>
+      <ul>
+        {changes.map((change, index) => <li key={index}>{change}</li>)}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState, useRef, FC } from 'react';
+import { createReference, filterSendableReferences, MAX_REFERENCE_IMAGES, REFERENCE_LABELS, selectReferences, toDataUrl } from '../services/references';
+import { PolicyDefinition, ReferenceImage, ReferenceLabel } from '../types';
+
+interface ReferenceLibraryProps {
+  policies: PolicyDefinition[];
+  references: ReferenceImage[];
+  loadError: string | null;
+  onAdd: (reference: ReferenceImage) => Promise<void>;
+  onUpdate: (reference: ReferenceImage) => Promise<void>;
+  onRemove: (id: number) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ReferenceLibrary: FC<ReferenceLibraryProps> = ({ policies, references, loadError, onAdd, onUpdate, onRemove, onClose }) => {
+  const [policyId, setPolicyId] = useState(policies[0]?.id ?? '');
+  const [label, setLabel] = useState<ReferenceLabel>('violation');
+  const [caption, setCaption] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sentCount = selectReferences(references, policies).length;
+  // References of disabled policies are never sent, so they do not count towards the limit.
+  const enabledCount = filterSendableReferences(references, policies).length;
+
+  const handleFiles = async (files: File[]) => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      let enabled = enabledCount;
+      const counts = policies.some(policy => policy.id === policyId && policy.enabled);
+      for (const file of files.filter(current => current.type.startsWith('image/'))) {
+        const reference = await createReference(file, policyId, label, caption.trim());
+        // Over the limit, new references are kept but not sent until another one is turned off.
+        reference.enabled = !counts || enabled < MAX_REFERENCE_IMAGES;
+        if (reference.enabled && counts) enabled++;
+        await onAdd(reference);
+      }
+      setCaption('');
+    } catch (e: any) {
+      setError(`Failed to add the reference image: ${e.message}`);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleChange = async (reference: ReferenceImage, patch: Partial<ReferenceImage>) => {
+    try {
+      await onUpdate({ ...reference, ...patch });
+    } catch (e: any) {
+      setError(`Failed to save the reference image: ${e.message}`);
+    }
+  };
+
+  const handleRemove = async (id: number) => {
+    try {
+      await onRemove(id);
+    } catch (e: any) {
+      setError(`Failed to remove the reference image: ${e.message}`);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="settings-panel">
+        <h2>Reference Images</h2>
+        <p className="settings-hint">
+          Enabled references are sent with every analyzed image as labeled examples for their policy.
+          {` ${sentCount} of at most ${MAX_REFERENCE_IMAGES} will be sent.`}
+        </p>
+        <div className="reference-form">
+          <select className="settings-input" value={policyId} onChange={e => setPolicyId(e.target.value)} aria-label="Policy">
+            {policies.map(policy => <option key={policy.id} value={policy.id}>{policy.label}</option>)}
+          </select>
+          <select className="settings-input" value={label} onChange={e => setLabel(e.target.value as ReferenceLabel)} aria-label="Label">
+            {(Object.keys(REFERENCE_LABELS) as ReferenceLabel[]).map(id => <option key={id} value={id}>{REFERENCE_LABELS[id]}</option>)}
+          </select>
+          <input className="settings-input" value={caption} onChange={e => setCaption(e.target.value)} placeholder="Caption, e.g. why this is borderline" />
+          <input type="file" accept="image/*" multiple ref={fileInputRef} style={{display: 'none'}} onChange={e => { handleFiles(Array.from(e.target.files || [])); e.target.value = ''; }} />
+          <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary" disabled={isAdding || !policyId}>{isAdding ? 'Adding...' : 'Add Images'}</button>
+        </div>
+        {loadError && <div className="error-card"><p>{loadError}</p></div>}
+        {error && <div className="error-card"><p>{error}</p></div>}
+        <div className="settings-list">
+          {policies.map(policy => {
+            const policyReferences = references.filter(reference => reference.policyId === policy.id);
+            if (policyReferences.length === 0) return null;
+            return (
+              <div key={policy.id} className={`settings-policy ${policy.enabled ? '' : 'disabled'}`}>
+                <strong>{policy.label}{policy.enabled ? '' : ' (policy disabled)'}</strong>
+                <div className="reference-grid">
+                  {policyReferences.map(reference => (
+                    <div key={reference.id} className={`reference-item reference-${reference.label}`}>
+                      <img src={toDataUrl(reference)} alt={reference.fileName} />
+                      <span className={`queue-badge ${reference.label === 'violation' ? 'queue-found' : 'queue-pass'}`}>{REFERENCE_LABELS[reference.label]}</span>
+                      <input
+                        className="settings-input"
+                        defaultValue={reference.caption}
+                        onBlur={e => { if (e.target.value.trim() !== reference.caption) handleChange(reference, { caption: e.target.value.trim() }); }}
+                        placeholder="Caption"
+                      />
+                      <div className="reference-actions">
+                        <label className="settings-toggle">
+                          <input
+                            type="checkbox"
+                            checked={reference.enabled}
+                            disabled={!reference.enabled && policy.enabled && enabledCount >= MAX_REFERENCE_IMAGES}
+                            onChange={e => handleChange(reference, { enabled: e.target.checked })}
+                          />
+                          Send
+                        </label>
+                        <button className="metadata-btn copy-btn" onClick={() => handleRemove(reference.id!)}>Remove</button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          {references.length === 0 && <p className="settings-hint">No reference images yet.</p>}
+        </div>
+        <div className="settings-actions">
+          <button onClick={onClose} className="btn btn-secondary">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { FC } from 'react';
+import { PolicyResult } from '../types';
+
+interface RegionOverlayProps {
+  imageUrl: string;
+  policies: PolicyResult[];
+  hiddenPolicyIds: string[];
+  highlightedPolicyId: string | null;
+  onToggle: (policyId: string) => void;
+}
+
+// Shows the preview image with the boxes of every policy finding drawn on top, plus a toggle per policy.
+export const RegionOverlay: FC<RegionOverlayProps> = ({ imageUrl, policies, hiddenPolicyIds, highlightedPolicyId, onToggle }) => {
+  // Results saved before regions existed have no regions array.
+  const withRegions = policies.filter(policy => (policy.regions ?? []).length > 0);
+  const visible = withRegions.filter(policy => !hiddenPolicyIds.includes(policy.id));
+
+  return (
+    <>
+      <div className="region-frame">
+        <img src={imageUrl} alt="Uploaded" />
+        {visible.map(policy => policy.regions.map((region, index) => (
+          <div
+            key={`${policy.id}-${index}`}
+            className={`region-box ${highlightedPolicyId === policy.id ? 'highlighted' : ''} ${highlightedPolicyId && highlightedPolicyId !== policy.id ? 'dimmed' : ''}`}
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+              borderColor: policy.color,
+            }}
+          >
+            {region.label && <span className="region-label" style={{ backgroundColor: policy.color }}>{region.label}</span>}
+          </div>
+        )))}
+      </div>
+      {withRegions.length > 0 && (
+        <div className="region-toggles" onClick={e => e.stopPropagation()}>
+          {withRegions.map(policy => (
+            <label key={policy.id} className="region-toggle">
+              <input type="checkbox" checked={!hiddenPolicyIds.includes(policy.id)} onChange={() => onToggle(policy.id)} />
+              <span className="region-swatch" style={{ backgroundColor: policy.color }} />
+              {policy.label} ({policy.regions.length})
+            </label>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
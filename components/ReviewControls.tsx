@@ -0,0 +1,43 @@
+import React, { useState, FC } from 'react';
+import { statusText } from '../services/review';
+import { PolicyResult, Verdict } from '../types';
+
+interface ReviewControlsProps {
+  policy: PolicyResult;
+  onOverride: (decision: Verdict, note: string) => Promise<void>;
+}
+
+export const ReviewControls: FC<ReviewControlsProps> = ({ policy, onOverride }) => {
+  const [isOpen, setIsOpen] = useState(policy.status === 'review');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleDecision = async (decision: Verdict) => {
+    setIsSaving(true);
+    try {
+      await onOverride(decision, note.trim());
+      setNote('');
+      setIsOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="review-controls" onClick={e => e.stopPropagation()}>
+      <p className="review-meta">
+        {policy.confidence !== null && <>Model confidence: {Math.round(policy.confidence * 100)}%. </>}
+        {policy.override && <>Reviewer decision on {new Date(policy.override.reviewedAt).toLocaleString()} (model said {statusText(policy.modelStatus)}){policy.override.note ? `: ${policy.override.note}` : '.'}</>}
+      </p>
+      {isOpen ? (
+        <div className="review-form">
+          <input className="settings-input" value={note} onChange={e => setNote(e.target.value)} placeholder="Why? (saved in the audit log)" />
+          <button onClick={() => handleDecision('pass')} className="metadata-btn copy-btn" disabled={isSaving}>Mark Pass</button>
+          <button onClick={() => handleDecision('found')} className="metadata-btn copy-btn" disabled={isSaving}>Mark Violation</button>
+        </div>
+      ) : (
+        <button onClick={() => setIsOpen(true)} className="link-btn">Override verdict</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React, { FC } from 'react';
+import { RightsInfo } from '../services/metadata';
+
+export const RightsPanel: FC<{ rights: RightsInfo }> = ({ rights }) => {
+  if (rights.fields.length === 0) return null;
+  const hasClaim = rights.claims.length > 0;
+
+  return (
+    <div className={`rights-panel ${hasClaim ? 'has-claim' : ''}`}>
+      <h3>Embedded Rights Metadata</h3>
+      {hasClaim && <p className="rights-claim">This file's metadata claims ownership, so the copyright check is marked as a violation.</p>}
+      <dl>
+        {rights.fields.map((field, index) => (
+          <React.Fragment key={index}>
+            <dt>{field.source} {field.name}</dt>
+            <dd>{field.value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { FC } from 'react';
+import { SpeechPlayerState, SpeechProgress } from '../hooks/useSpeechPlayer';
+import { SPEECH_STYLES, SpeechSettings, SpeechStyleId, VOICES } from '../services/speech';
+
+interface SpeechPlayerProps {
+  settings: SpeechSettings;
+  state: SpeechPlayerState;
+  progress: SpeechProgress | null;
+  canReplay: boolean;
+  canDownload: boolean;
+  onSettingsChange: (settings: SpeechSettings) => void;
+  onReadReport: () => void;
+  onStop: () => void;
+  onReplay: () => void;
+  onDownload: () => void;
+}
+
+const describeProgress = (state: SpeechPlayerState, progress: SpeechProgress | null) => {
+  if (state === 'idle' || !progress) return 'Ready';
+  const position = progress.total > 1 ? ` (${progress.index + 1} of ${progress.total})` : '';
+  return `${state === 'loading' ? 'Generating' : 'Reading'} ${progress.label}${position}...`;
+};
+
+export const SpeechPlayer: FC<SpeechPlayerProps> = ({ settings, state, progress, canReplay, canDownload, onSettingsChange, onReadReport, onStop, onReplay, onDownload }) => (
+  <div className="speech-player">
+    <div className="speech-player-settings">
+      <select className="settings-input" value={settings.voiceName} onChange={e => onSettingsChange({ ...settings, voiceName: e.target.value })} aria-label="Voice">
+        {VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name} ({voice.description})</option>)}
+      </select>
+      <select className="settings-input" value={settings.styleId} onChange={e => onSettingsChange({ ...settings, styleId: e.target.value as SpeechStyleId })} aria-label="Speaking style">
+        {(Object.keys(SPEECH_STYLES) as SpeechStyleId[]).map(id => <option key={id} value={id}>{SPEECH_STYLES[id].label}</option>)}
+      </select>
+      <span className="speech-player-status">{describeProgress(state, progress)}</span>
+    </div>
+    <div className="speech-player-actions">
+      <button onClick={onReadReport} className="metadata-btn tts-btn">Read full report</button>
+      <button onClick={onStop} className="metadata-btn copy-btn" disabled={state === 'idle'}>Stop</button>
+      <button onClick={onReplay} className="metadata-btn copy-btn" disabled={!canReplay}>Replay</button>
+      <button onClick={onDownload} className="metadata-btn copy-btn" disabled={!canDownload || state !== 'idle'}>Download WAV</button>
+    </div>
+  </div>
+);
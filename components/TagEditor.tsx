@@ -0,0 +1,83 @@
+import React, { useState, FC } from 'react';
+import { isTagValid, MetadataRules, normalizeTag } from '../services/metadataRules';
+
+interface TagEditorProps {
+  tags: string[];
+  rules: MetadataRules;
+  isRegenerating: boolean;
+  onChange: (tags: string[]) => void;
+  onRegenerate: (indexes: number[]) => void;
+}
+
+// Tag chips that can be removed, added, dragged into a new order and selected for regeneration.
+export const TagEditor: FC<TagEditorProps> = ({ tags, rules, isRegenerating, onChange, onRegenerate }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => prev.includes(index) ? prev.filter(current => current !== index) : [...prev, index]);
+  };
+
+  const removeTag = (index: number) => {
+    onChange(tags.filter((_tag, current) => current !== index));
+    setSelected([]);
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag, rules);
+    if (!tag || tags.includes(tag)) return;
+    onChange([...tags, tag]);
+    setNewTag('');
+  };
+
+  const moveTag = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...tags];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+    setSelected([]);
+  };
+
+  const handleRegenerate = () => {
+    onRegenerate([...selected].sort((a, b) => a - b));
+    setSelected([]);
+  };
+
+  return (
+    <div className="tag-editor">
+      <div className="tags-container">
+        {tags.map((tag, index) => (
+          <span
+            key={`${tag}-${index}`}
+            className={`tag editable-tag ${selected.includes(index) ? 'selected' : ''} ${isTagValid(tag, rules) ? '' : 'invalid'} ${dragIndex === index ? 'dragging' : ''}`}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={() => { if (dragIndex !== null) moveTag(dragIndex, index); setDragIndex(null); }}
+            onDragEnd={() => setDragIndex(null)}
+            onClick={() => toggleSelected(index)}
+            title={isTagValid(tag, rules) ? 'Click to select, drag to reorder' : 'This tag breaks a rule'}
+          >
+            #{tag}
+            <button className="tag-remove" onClick={e => { e.stopPropagation(); removeTag(index); }} aria-label={`Remove ${tag}`}>×</button>
+          </span>
+        ))}
+      </div>
+      <div className="tag-editor-actions">
+        <input
+          className="settings-input"
+          value={newTag}
+          onChange={e => setNewTag(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') addTag(); }}
+          placeholder={`Add a tag (${tags.length} of max ${rules.maxTags})`}
+        />
+        <button onClick={addTag} className="metadata-btn copy-btn" disabled={!newTag.trim()}>Add</button>
+        <button onClick={handleRegenerate} className="metadata-btn tts-btn" disabled={isRegenerating || tags.length === 0}>
+          {isRegenerating ? 'Regenerating...' : selected.length > 0 ? `Regenerate ${selected.length} selected` : 'Regenerate all tags'}
+        </button>
+      </div>
+    </div>
+  );
+};
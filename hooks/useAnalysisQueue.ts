@@ -0,0 +1,256 @@
+import { useState, useEffect, useRef } from 'react';
+import { AnalysisOptions, analyzeImage, getOverallStatus, regenerateMetadata } from '../services/analysis';
+import { analysisProvider } from '../services/providers';
+import { getAnalysisConfigKey, getHistoryRecord, hashFile, recordAnalysis, updateHistoryResult } from '../services/history';
+import { addAuditEntry, applyOverride } from '../services/review';
+import { sha256Hex } from '../services/hash';
+import { readRightsMetadata } from '../services/metadata';
+import { MetadataFields, validateMetadata } from '../services/metadataRules';
+import { PLATFORM_PROFILES, PlatformId } from '../services/platforms';
+import { classifyError, describeRequestError } from '../services/requests';
+import { PreparedImage } from '../services/preprocess';
+import { AnalysisResult, BatchState, MetadataField, PolicyDefinition, QueueItem, Verdict } from '../types';
+
+// Maximum number of images analyzed at the same time.
+const MAX_CONCURRENT_ANALYSES = 3;
+
+let nextQueueItemId = 0;
+
+// onItemError is called with the classified error whenever an image fails to analyze; the item itself also keeps the message.
+export const useAnalysisQueue = (
+  policies: PolicyDefinition[],
+  options: Omit<AnalysisOptions, 'rights' | 'signal'>,
+  onItemError?: (item: QueueItem, error: any) => void,
+) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [batchState, setBatchState] = useState<BatchState>('idle');
+  // One controller per running item, so that cancel() can abort the requests in flight.
+  const controllers = useRef(new Map<string, AbortController>());
+  // Metadata regenerations in flight, aborted by cancel() and clear() as well.
+  const regenerations = useRef(new Set<AbortController>());
+  // The latest items, for async actions that would otherwise see the state of the render that started them.
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const onItemErrorRef = useRef(onItemError);
+  onItemErrorRef.current = onItemError;
+
+  const updateItem = (id: string, patch: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  // Writes a change to an already analyzed image back to its history record, if it has one.
+  const updateHistory = (item: QueueItem, update: (result: AnalysisResult) => AnalysisResult) => {
+    if (!item.hash) return;
+    updateHistoryResult(item.hash, update)
+      .catch((e: any) => updateItem(item.id, { historyError: `The change could not be saved to history: ${e.message}` }));
+  };
+
+  // Looks the image up in history by its content hash. A result produced with other settings is not reused.
+  const findCachedRecord = async (hash: string, configKey: string) => {
+    const record = await getHistoryRecord(hash).catch(() => undefined);
+    return record?.configKey === configKey ? record : undefined;
+  };
+
+  // Returns true if a cached result was applied.
+  const applyCachedResult = async (item: QueueItem, hash: string, configKey: string): Promise<boolean> => {
+    const record = await findCachedRecord(hash, configKey);
+    if (!record) return false;
+    updateItem(item.id, { status: getOverallStatus(record.result), result: record.result, error: null, cachedAt: record.createdAt });
+    return true;
+  };
+
+  const runItem = async (item: QueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    try {
+      const hash = item.hash ?? await hashFile(item.file);
+      const configKey = await getAnalysisConfigKey(policies, { ...options, maxImageEdge: item.maxImageEdge }, analysisProvider.model);
+      if (!item.forceRefresh && await applyCachedResult(item, hash, configKey)) return;
+
+      const rights = item.rights ?? await readRightsMetadata(await item.file.arrayBuffer()).catch(() => null);
+      const result = await analyzeImage(item.analysisFile, policies, analysisProvider, { ...options, rights, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      updateItem(item.id, { status: getOverallStatus(result), result, error: null, hash, cachedAt: null, forceRefresh: false });
+      recordAnalysis(item.file, hash, result, analysisProvider.model, configKey)
+        .then(() => updateItem(item.id, { historyError: null }))
+        .catch((e: any) => updateItem(item.id, { historyError: `The result could not be saved to history and will not be reused: ${e.message}` }));
+    } catch (e: any) {
+      // cancel() has already put the item back in the queue.
+      if (classifyError(e) === 'cancelled') return;
+      updateItem(item.id, { status: 'error', error: `An error occurred during AI analysis: ${describeRequestError(e)}` });
+      onItemErrorRef.current?.(item, e);
+    } finally {
+      // A cancelled run can finish after its image was restarted; leave the new run's controller in place.
+      if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+    }
+  };
+
+  // Runs as soon as an image is added: reads its embedded rights metadata and offers a previous result
+  // for already-seen images, without calling the API.
+  const inspectFile = async (item: QueueItem) => {
+    try {
+      const bytes = await item.file.arrayBuffer();
+      const rights = await readRightsMetadata(bytes).catch(() => ({ fields: [], claims: [], attributions: [] }));
+      const hash = await sha256Hex(bytes);
+      updateItem(item.id, { rights, hash });
+
+      const record = await findCachedRecord(hash, await getAnalysisConfigKey(policies, { ...options, maxImageEdge: item.maxImageEdge }, analysisProvider.model));
+      if (!record) return;
+      setItems(prev => prev.map(current => current.id === item.id && current.status === 'queued'
+        ? { ...current, status: getOverallStatus(record.result), result: record.result, cachedAt: record.createdAt }
+        : current));
+    } catch {
+      // Inspection is best effort; the item is simply analyzed when the batch runs.
+    }
+  };
+
+  // Scheduler: whenever the queue changes, start as many queued items as the concurrency limit allows.
+  useEffect(() => {
+    if (batchState !== 'running') return;
+
+    const running = items.filter(item => item.status === 'running').length;
+    const queued = items.filter(item => item.status === 'queued');
+    if (running === 0 && queued.length === 0) {
+      setBatchState('idle');
+      return;
+    }
+
+    const toStart = queued.slice(0, Math.max(0, MAX_CONCURRENT_ANALYSES - running));
+    if (toStart.length === 0) return;
+
+    const startIds = new Set(toStart.map(item => item.id));
+    setItems(prev => prev.map(item => startIds.has(item.id) ? { ...item, status: 'running', error: null } : item));
+    toStart.forEach(runItem);
+  }, [items, batchState]);
+
+  const addFiles = (images: PreparedImage[]): QueueItem[] => {
+    const added = images
+      .map(({ original, file, changes, maxEdge }): QueueItem => ({
+        id: `item-${nextQueueItemId++}`,
+        file: original,
+        analysisFile: file,
+        preprocessChanges: changes,
+        maxImageEdge: maxEdge,
+        url: URL.createObjectURL(original),
+        status: 'queued',
+        result: null,
+        error: null,
+        hash: null,
+        cachedAt: null,
+        forceRefresh: false,
+        rights: null,
+        historyError: null,
+      }));
+    if (added.length > 0) {
+      setItems(prev => [...prev, ...added]);
+      added.forEach(inspectFile);
+    }
+    return added;
+  };
+
+  const start = () => setBatchState('running');
+
+  const pause = () => setBatchState(state => state === 'running' ? 'paused' : state);
+
+  const abortRegenerations = () => {
+    regenerations.current.forEach(controller => controller.abort());
+    regenerations.current.clear();
+  };
+
+  // Stops the batch and aborts the running analyses; their images go back to the queue unchanged.
+  const cancel = () => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    abortRegenerations();
+    setItems(prev => prev.map(item => item.status === 'running' ? { ...item, status: 'queued', error: null } : item));
+    setBatchState('idle');
+  };
+
+  const retryFailed = () => {
+    setItems(prev => prev.map(item => item.status === 'error' ? { ...item, status: 'queued', error: null } : item));
+    setBatchState('running');
+  };
+
+  // Discards a cached result and queues the image for a fresh analysis.
+  const reanalyze = (id: string) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, status: 'queued', result: null, error: null, cachedAt: null, forceRefresh: true } : item));
+    setBatchState('running');
+  };
+
+  // Applies a reviewer's verdict to one policy of an analyzed image. The override is written to the audit log
+  // first so that no decision is shown without being recorded, then to the image's history record.
+  const overrideVerdict = async (id: string, policyId: string, decision: Verdict, note: string) => {
+    const item = itemsRef.current.find(current => current.id === id);
+    const policy = item?.result?.policies.find(current => current.id === policyId);
+    if (!item?.result || !policy) return;
+
+    const reviewedAt = Date.now();
+    await addAuditEntry({
+      hash: item.hash,
+      fileName: item.file.name,
+      policyId,
+      policyLabel: policy.label,
+      modelStatus: policy.modelStatus,
+      confidence: policy.confidence,
+      previousStatus: policy.status,
+      decision,
+      note,
+      reviewedAt,
+    });
+    // Applied to the latest result in state and in history, so metadata edits made meanwhile are kept.
+    const withOverride = (result: AnalysisResult) => applyOverride(result, policyId, decision, note, reviewedAt);
+    setItems(prev => prev.map(current => {
+      if (current.id !== id || !current.result) return current;
+      const result = withOverride(current.result);
+      return { ...current, status: getOverallStatus(result), result };
+    }));
+    updateHistory(item, withOverride);
+  };
+
+  // Applies edited metadata for one platform and checks its rules again. Uses the latest state so quick successive edits are not lost.
+  const updateMetadata = (id: string, platformId: PlatformId, patch: Partial<MetadataFields>) => {
+    const withPatch = (result: AnalysisResult): AnalysisResult => ({
+      ...result,
+      metadata: result.metadata.map(entry => {
+        if (entry.platformId !== platformId) return entry;
+        const next = { ...entry, ...patch };
+        return { ...next, validationIssues: validateMetadata(next, PLATFORM_PROFILES[platformId].rules) };
+      }),
+    });
+    setItems(prev => prev.map(item => item.id === id && item.result ? { ...item, result: withPatch(item.result) } : item));
+    const item = itemsRef.current.find(current => current.id === id);
+    if (item) updateHistory(item, withPatch);
+  };
+
+  // Asks the model for a new value of one field, or only the chosen tags, without repeating the policy checks.
+  // Does nothing if the request is aborted or the image was removed in the meantime.
+  const regenerateField = async (id: string, platformId: PlatformId, field: MetadataField, tagIndexes: number[] = []) => {
+    const item = itemsRef.current.find(current => current.id === id);
+    const entry = item?.result?.metadata.find(current => current.platformId === platformId);
+    if (!item || !entry) return;
+    const { title, imageDescription, tags } = entry;
+    const controller = new AbortController();
+    regenerations.current.add(controller);
+    try {
+      const updated = await regenerateMetadata(item.analysisFile, { title, imageDescription, tags }, field, PLATFORM_PROFILES[platformId], analysisProvider, tagIndexes, controller.signal);
+      if (controller.signal.aborted || !itemsRef.current.some(current => current.id === id)) return;
+      updateMetadata(id, platformId, { [field]: updated[field] });
+    } catch (e: any) {
+      if (classifyError(e) === 'cancelled') return;
+      throw e;
+    } finally {
+      regenerations.current.delete(controller);
+    }
+  };
+
+  const clear = () => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    abortRegenerations();
+    items.forEach(item => URL.revokeObjectURL(item.url));
+    setItems([]);
+    setBatchState('idle');
+  };
+
+  return { items, batchState, addFiles, start, pause, resume: start, cancel, retryFailed, reanalyze, overrideVerdict, updateMetadata, regenerateField, clear };
+};
@@ -0,0 +1,13 @@
+import { useState } from 'react';
+import { loadMaxImageEdge, saveMaxImageEdge } from '../services/preprocess';
+
+export const useMaxImageEdge = () => {
+  const [maxImageEdge, setMaxImageEdge] = useState<number>(loadMaxImageEdge);
+
+  const updateMaxImageEdge = (next: number) => {
+    setMaxImageEdge(next);
+    saveMaxImageEdge(next);
+  };
+
+  return { maxImageEdge, updateMaxImageEdge };
+};
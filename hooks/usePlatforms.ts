@@ -0,0 +1,13 @@
+import { useState } from 'react';
+import { loadPlatformIds, PlatformId, savePlatformIds } from '../services/platforms';
+
+export const usePlatforms = () => {
+  const [platformIds, setPlatformIds] = useState<PlatformId[]>(loadPlatformIds);
+
+  const updatePlatformIds = (next: PlatformId[]) => {
+    setPlatformIds(next);
+    savePlatformIds(next);
+  };
+
+  return { platformIds, updatePlatformIds };
+};
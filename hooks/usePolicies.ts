@@ -0,0 +1,25 @@
+import { useState } from 'react';
+import { DEFAULT_POLICIES, DEFAULT_REVIEW_THRESHOLD, loadPolicies, loadReviewThreshold, savePolicies, saveReviewThreshold } from '../services/policies';
+import { PolicyDefinition } from '../types';
+
+export const usePolicies = () => {
+  const [policies, setPolicies] = useState<PolicyDefinition[]>(loadPolicies);
+  const [reviewThreshold, setReviewThreshold] = useState<number>(loadReviewThreshold);
+
+  const updatePolicies = (next: PolicyDefinition[]) => {
+    setPolicies(next);
+    savePolicies(next);
+  };
+
+  const updateReviewThreshold = (next: number) => {
+    setReviewThreshold(next);
+    saveReviewThreshold(next);
+  };
+
+  const resetPolicies = () => {
+    updatePolicies(DEFAULT_POLICIES);
+    updateReviewThreshold(DEFAULT_REVIEW_THRESHOLD);
+  };
+
+  return { policies, updatePolicies, resetPolicies, reviewThreshold, updateReviewThreshold };
+};
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { addReference, deleteReference, listReferences, updateReference } from '../services/references';
+import { ReferenceImage } from '../types';
+
+export const useReferences = () => {
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  // Set when the stored references could not be read; analyses then run without them.
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listReferences()
+      .then(setReferences)
+      .catch((e: any) => setLoadError(`Failed to load the reference images, so none are sent: ${e.message}`));
+  }, []);
+
+  const add = async (reference: ReferenceImage) => {
+    const id = await addReference(reference);
+    setReferences(prev => [...prev, { ...reference, id }]);
+  };
+
+  const update = async (reference: ReferenceImage) => {
+    await updateReference(reference);
+    setReferences(prev => prev.map(current => current.id === reference.id ? reference : current));
+  };
+
+  const remove = async (id: number) => {
+    await deleteReference(id);
+    setReferences(prev => prev.filter(current => current.id !== id));
+  };
+
+  return { references, loadError, add, update, remove };
+};
@@ -0,0 +1,125 @@
+import { useState, useRef } from 'react';
+import { pcmToWav } from '../services/audio';
+import { speechProvider, SpeechAudio } from '../services/providers';
+import { classifyError } from '../services/requests';
+import { buildSpeechText, clipsToWav, createSpeechCache, loadSpeechSettings, saveSpeechSettings, SpeechSegment, SpeechSettings } from '../services/speech';
+
+export type SpeechPlayerState = 'idle' | 'loading' | 'playing';
+
+export interface SpeechProgress {
+  label: string;
+  index: number;
+  total: number;
+}
+
+// Helper function to play one clip, resolving when it ends and rejecting with the abort reason when stopped.
+const playClip = (clip: SpeechAudio, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(pcmToWav(new Int16Array(clip.pcm), clip.sampleRate));
+  const audio = new Audio(url);
+  const finish = () => {
+    signal.removeEventListener('abort', onAbort);
+    URL.revokeObjectURL(url);
+  };
+  const onAbort = () => {
+    audio.pause();
+    finish();
+    reject(signal.reason);
+  };
+  audio.onended = () => {
+    finish();
+    resolve();
+  };
+  audio.onerror = () => {
+    finish();
+    reject(new Error('The audio could not be played.'));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+  audio.play().catch(e => {
+    finish();
+    reject(e);
+  });
+});
+
+// Plays text through the TTS provider one segment at a time, caching audio per voice and text.
+// onError gets the failure and a function that starts the same playback again.
+export const useSpeechPlayer = (onError: (e: any, retry: () => void) => void) => {
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [state, setState] = useState<SpeechPlayerState>('idle');
+  const [progress, setProgress] = useState<SpeechProgress | null>(null);
+  // What was played last, with the settings it was played with, for replay and download.
+  const [lastPlayed, setLastPlayed] = useState<{ segments: SpeechSegment[], settings: SpeechSettings } | null>(null);
+  const cache = useRef(createSpeechCache());
+  const controller = useRef<AbortController | null>(null);
+
+  const updateSettings = (next: SpeechSettings) => {
+    setSettings(next);
+    saveSpeechSettings(next);
+  };
+
+  const stop = () => {
+    controller.current?.abort();
+    controller.current = null;
+    setState('idle');
+    setProgress(null);
+  };
+
+  const play = async (segments: SpeechSegment[]) => {
+    stop();
+    if (segments.length === 0) return;
+
+    const current = new AbortController();
+    controller.current = current;
+    const { voiceName, styleId } = settings;
+    setLastPlayed({ segments, settings });
+
+    const synthesize = async (segment: SpeechSegment) => {
+      const text = buildSpeechText(segment.text, styleId);
+      const cached = cache.current.get(voiceName, text);
+      if (cached) return cached;
+      const clip = await speechProvider.synthesize({ text, voiceName }, current.signal);
+      cache.current.set(voiceName, text, clip);
+      return clip;
+    };
+
+    try {
+      let next = synthesize(segments[0]);
+      for (let index = 0; index < segments.length; index++) {
+        setState('loading');
+        setProgress({ label: segments[index].label, index, total: segments.length });
+        const clip = await next;
+        // Fetch the next segment while this one plays; a failure surfaces when it is awaited.
+        if (index + 1 < segments.length) {
+          next = synthesize(segments[index + 1]);
+          next.catch(() => undefined);
+        }
+        setState('playing');
+        await playClip(clip, current.signal);
+      }
+    } catch (e: any) {
+      if (classifyError(e) !== 'cancelled') onError(e, () => play(segments));
+    } finally {
+      if (controller.current === current) {
+        controller.current = null;
+        setState('idle');
+        setProgress(null);
+      }
+    }
+  };
+
+  const replay = () => {
+    if (lastPlayed) play(lastPlayed.segments);
+  };
+
+  // Audio of the last playback, available once every segment has been synthesized.
+  const lastClips = lastPlayed?.segments.map(segment =>
+    cache.current.get(lastPlayed.settings.voiceName, buildSpeechText(segment.text, lastPlayed.settings.styleId)));
+  const downloadableClips = lastClips && lastClips.every(Boolean) ? lastClips as SpeechAudio[] : null;
+
+  const getDownload = (): { blob: Blob, name: string } | null => {
+    if (!downloadableClips || !lastPlayed) return null;
+    const name = lastPlayed.segments.length === 1 ? lastPlayed.segments[0].label : 'report';
+    return { blob: clipsToWav(downloadableClips), name: `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${lastPlayed.settings.voiceName.toLowerCase()}.wav` };
+  };
+
+  return { settings, updateSettings, state, progress, play, stop, replay, canReplay: lastPlayed !== null, getDownload, canDownload: downloadableClips !== null };
+};
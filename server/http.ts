@@ -0,0 +1,67 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ApiError, ApiErrorBody } from '../services/api';
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: ApiError) => {
+  // The rest of an oversized body is never read, so the connection cannot be reused once the error is sent.
+  if (error.status === 413) res.setHeader('Connection', 'close');
+  const body: ApiErrorBody = { error: { code: error.code, message: error.message } };
+  if (error.retryAfter !== undefined) {
+    body.error.retryAfter = error.retryAfter;
+    res.setHeader('Retry-After', String(error.retryAfter));
+  }
+  sendJson(res, error.status, body);
+};
+
+// A signal that aborts if the client disconnects before the response is sent, so an abandoned request stops calling the AI service.
+export const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+// Reads and parses a JSON request body, rejecting it as soon as it grows past maxBytes.
+// The rest of an oversized body is drained rather than the socket destroyed, so the client still receives the 413.
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => {
+      reject(new ApiError(413, { code: 'payload_too_large', message: `Request body must be at most ${Math.round(maxBytes / 1024)} KB.` }));
+      req.unpipe();
+      req.resume();
+    };
+
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > maxBytes) {
+      tooLarge();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    const onData = (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        req.off('data', onData);
+        chunks.length = 0;
+        tooLarge();
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new ApiError(400, { code: 'bad_request', message: 'Request body must be valid JSON.' }));
+      }
+    });
+    req.on('error', reject);
+  });
+};
@@ -0,0 +1,150 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { ApiError, AnalyzeResponseBody, TtsResponseBody } from '../services/api';
+import { createGeminiAnalysisProvider, createGeminiSpeechProvider } from '../services/providers/gemini';
+import { classifyError } from '../services/requests';
+import { abortOnDisconnect, readJsonBody, sendError, sendJson } from './http';
+import { createRateLimiter } from './rateLimit';
+import { parseAnalyzeRequest, parseTtsRequest } from './validation';
+
+// The API key lives only here; the browser talks to /api/* and never sees it.
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.API_PORT || 8787);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE || 30);
+const MAX_ANALYZE_BODY_BYTES = 15 * 1024 * 1024;
+const MAX_TTS_BODY_BYTES = 16 * 1024;
+// Only trust X-Forwarded-For when running behind a reverse proxy that sets it.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR || 'dist');
+
+const apiKey = process.env.GEMINI_API_KEY;
+const analysisProvider = apiKey ? createGeminiAnalysisProvider(apiKey) : null;
+const speechProvider = apiKey ? createGeminiSpeechProvider(apiKey) : null;
+const rateLimiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.pcm': 'application/octet-stream',
+};
+
+const getClientKey = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Passes on errors the provider already classified and sorts the rest, so the browser can show a specific message.
+const upstreamError = (e: any) => {
+  if (e instanceof ApiError) return e;
+  switch (classifyError(e)) {
+    case 'quota': return new ApiError(429, { code: 'quota_exceeded', message: 'The AI service quota was exceeded.' });
+    case 'auth': return new ApiError(502, { code: 'upstream_auth', message: 'The AI service rejected the server\'s API key.' });
+    case 'timeout': return new ApiError(504, { code: 'upstream_timeout', message: 'The AI service did not respond in time.' });
+    default: return new ApiError(502, { code: 'upstream_error', message: `The AI service failed: ${e?.message || 'unknown error'}` });
+  }
+};
+
+const handleAnalyze = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!analysisProvider) throw new ApiError(500, { code: 'server_misconfigured', message: 'GEMINI_API_KEY is not configured on the server.' });
+  const request = parseAnalyzeRequest(await readJsonBody(req, MAX_ANALYZE_BODY_BYTES));
+
+  let result: any;
+  try {
+    result = await analysisProvider.generateJson(request, abortOnDisconnect(res));
+  } catch (e) {
+    throw upstreamError(e);
+  }
+  const body: AnalyzeResponseBody = { result };
+  sendJson(res, 200, body);
+};
+
+const handleTts = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!speechProvider) throw new ApiError(500, { code: 'server_misconfigured', message: 'GEMINI_API_KEY is not configured on the server.' });
+  const request = parseTtsRequest(await readJsonBody(req, MAX_TTS_BODY_BYTES));
+
+  let body: TtsResponseBody;
+  try {
+    const { pcm, sampleRate } = await speechProvider.synthesize(request, abortOnDisconnect(res));
+    body = { audio: Buffer.from(pcm).toString('base64'), sampleRate };
+  } catch (e) {
+    throw upstreamError(e);
+  }
+  sendJson(res, 200, body);
+};
+
+const apiRoutes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  '/api/analyze': handleAnalyze,
+  '/api/tts': handleTts,
+};
+
+// Helper function to check that a resolved path stays inside STATIC_DIR, so '..' or a sibling such as 'dist2/' is never served.
+const isInsideStaticDir = (filePath: string) => {
+  const relative = path.relative(STATIC_DIR, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+// Serves the built client from STATIC_DIR, falling back to index.html for unknown paths.
+const serveStatic = (pathname: string, res: ServerResponse) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new ApiError(400, { code: 'bad_request', message: 'The request path is not valid URL encoding.' });
+  }
+  let filePath = path.join(STATIC_DIR, path.normalize(decoded));
+  if (!isInsideStaticDir(filePath) || !existsSync(filePath) || statSync(filePath).isDirectory()) {
+    filePath = path.join(STATIC_DIR, 'index.html');
+  }
+  if (!existsSync(filePath)) {
+    sendError(res, new ApiError(404, { code: 'not_found', message: 'Not found.' }));
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+  res.end(readFileSync(filePath));
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  try {
+    if (!pathname.startsWith('/api/')) {
+      serveStatic(pathname, res);
+      return;
+    }
+
+    const route = apiRoutes[pathname];
+    if (!route) throw new ApiError(404, { code: 'not_found', message: `Unknown endpoint ${pathname}.` });
+    if (req.method !== 'POST') throw new ApiError(405, { code: 'method_not_allowed', message: `${pathname} only accepts POST requests.` });
+
+    const retryAfter = rateLimiter.check(getClientKey(req));
+    if (retryAfter > 0) {
+      throw new ApiError(429, { code: 'rate_limited', message: `Too many requests. Please wait ${retryAfter} seconds and try again.`, retryAfter });
+    }
+
+    await route(req, res);
+  } catch (e: any) {
+    if (e instanceof ApiError) {
+      sendError(res, e);
+    } else {
+      console.error(e);
+      sendError(res, new ApiError(500, { code: 'internal_error', message: 'Unexpected server error.' }));
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+  if (!apiKey) console.warn('GEMINI_API_KEY is not set; /api requests will fail until it is configured.');
+});
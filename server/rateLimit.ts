@@ -0,0 +1,35 @@
+interface Window {
+  start: number;
+  count: number;
+}
+
+// Fixed-window request counter per client key (usually the client IP).
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, Window>();
+
+  // Drop expired windows so the map does not grow with every client ever seen.
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (now - window.start >= windowMs) windows.delete(key);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  // Returns 0 if the request is allowed, otherwise the number of seconds until the client may retry.
+  const check = (key: string): number => {
+    const now = Date.now();
+    const window = windows.get(key);
+    if (!window || now - window.start >= windowMs) {
+      windows.set(key, { start: now, count: 1 });
+      return 0;
+    }
+    if (window.count >= limit) {
+      return Math.ceil((window.start + windowMs - now) / 1000);
+    }
+    window.count++;
+    return 0;
+  };
+
+  return { check };
+};
@@ -0,0 +1,43 @@
+import { AnalyzeRequestBody, ApiError, TtsRequestBody } from '../services/api';
+import { RequestPurpose } from '../services/providers/types';
+
+const PURPOSES: RequestPurpose[] = ['analysis', 'repair', 'regenerate'];
+const MAX_PARTS = 20;
+const MAX_TTS_TEXT_LENGTH = 5000;
+
+const badRequest = (message: string) => new ApiError(400, { code: 'bad_request', message });
+
+const isPlainObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseAnalyzeRequest = (body: unknown): AnalyzeRequestBody => {
+  if (!isPlainObject(body)) throw badRequest('Request body must be a JSON object.');
+  const { purpose, parts, responseSchema } = body;
+
+  if (!PURPOSES.includes(purpose)) throw badRequest(`'purpose' must be one of: ${PURPOSES.join(', ')}.`);
+  if (!Array.isArray(parts) || parts.length === 0 || parts.length > MAX_PARTS) {
+    throw badRequest(`'parts' must be an array of 1 to ${MAX_PARTS} items.`);
+  }
+  parts.forEach((part, index) => {
+    if (isPlainObject(part) && typeof part.text === 'string') return;
+    const inline = isPlainObject(part) ? part.inlineData : null;
+    if (isPlainObject(inline) && typeof inline.data === 'string' && typeof inline.mimeType === 'string' && inline.mimeType.startsWith('image/')) return;
+    throw badRequest(`'parts[${index}]' must be a text part or an inline image.`);
+  });
+  if (!isPlainObject(responseSchema)) throw badRequest(`'responseSchema' must be an object.`);
+
+  return { purpose, parts, responseSchema };
+};
+
+export const parseTtsRequest = (body: unknown): TtsRequestBody => {
+  if (!isPlainObject(body)) throw badRequest('Request body must be a JSON object.');
+  const { text, voiceName } = body;
+
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_TTS_TEXT_LENGTH) {
+    throw badRequest(`'text' must be a non-empty string of at most ${MAX_TTS_TEXT_LENGTH} characters.`);
+  }
+  if (typeof voiceName !== 'string' || !/^[A-Za-z]+$/.test(voiceName)) {
+    throw badRequest(`'voiceName' must be a prebuilt voice name.`);
+  }
+
+  return { text, voiceName };
+};
@@ -0,0 +1,74 @@
+export type AgencyId = 'shutterstock' | 'adobeStock' | 'istock';
+
+// One image's generated metadata, ready to be exported.
+export interface ExportRow {
+  fileName: string;
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+export interface AgencyLimits {
+  titleMaxLength: number | null;
+  descriptionMaxLength: number | null;
+  minKeywords: number;
+  maxKeywords: number;
+}
+
+export interface AgencyProfile {
+  id: AgencyId;
+  label: string;
+  keywordSeparator: string;
+  limits: AgencyLimits;
+  // CSV columns in upload order; each maps a row to its cell value.
+  columns: { header: string; value: (row: ExportRow, keywords: string[]) => string }[];
+}
+
+// Agencies expect plain keywords, so 'darker_tones' is exported as 'darker tones'.
+export const tagToKeyword = (tag: string) => tag.replace(/_+/g, ' ').trim();
+
+export const AGENCY_PROFILES: Record<AgencyId, AgencyProfile> = {
+  shutterstock: {
+    id: 'shutterstock',
+    label: 'Shutterstock',
+    keywordSeparator: ',',
+    limits: { titleMaxLength: null, descriptionMaxLength: 200, minKeywords: 7, maxKeywords: 50 },
+    columns: [
+      { header: 'Filename', value: row => row.fileName },
+      { header: 'Description', value: row => row.description },
+      { header: 'Keywords', value: (_row, keywords) => keywords.join(',') },
+      { header: 'Categories', value: () => '' },
+      { header: 'Editorial', value: () => 'no' },
+      { header: 'Mature content', value: () => 'no' },
+      { header: 'illustration', value: () => '' },
+    ],
+  },
+  adobeStock: {
+    id: 'adobeStock',
+    label: 'Adobe Stock',
+    keywordSeparator: ',',
+    limits: { titleMaxLength: 200, descriptionMaxLength: null, minKeywords: 1, maxKeywords: 49 },
+    columns: [
+      { header: 'Filename', value: row => row.fileName },
+      { header: 'Title', value: row => row.title },
+      { header: 'Keywords', value: (_row, keywords) => keywords.join(',') },
+      { header: 'Category', value: () => '' },
+      { header: 'Releases', value: () => '' },
+    ],
+  },
+  istock: {
+    id: 'istock',
+    label: 'iStock',
+    keywordSeparator: ',',
+    limits: { titleMaxLength: 100, descriptionMaxLength: 250, minKeywords: 5, maxKeywords: 50 },
+    columns: [
+      { header: 'file name', value: row => row.fileName },
+      { header: 'created date', value: () => '' },
+      { header: 'description', value: row => row.description },
+      { header: 'country', value: () => '' },
+      { header: 'brief code', value: () => '' },
+      { header: 'title', value: row => row.title },
+      { header: 'keywords', value: (_row, keywords) => keywords.join(',') },
+    ],
+  },
+};
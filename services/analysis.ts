@@ -0,0 +1,330 @@
+import { Type } from "@google/genai";
+import { AnalysisResult, MetadataField, PlatformMetadata, PolicyDefinition, PolicyResult, ReferenceImage, Region, Status, ValidationIssue } from '../types';
+import { AnalysisProvider, ContentPart } from './providers';
+import { RightsInfo } from './metadata/types';
+import { COPYRIGHT_POLICY_ID, DEFAULT_REVIEW_THRESHOLD, getPolicyColor } from './policies';
+import { METADATA_FIELD_LABELS, MetadataFields, MetadataRules, describeTagCount, getFailedFields, validateMetadata } from './metadataRules';
+import { DEFAULT_PLATFORM_ID, PLATFORM_PROFILES, PlatformProfile } from './platforms';
+import { classifyError } from './requests';
+
+// Helper function to convert a File to a base64 string. Avoids FileReader so that it also runs in Node.
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Converting in chunks keeps String.fromCharCode below the engine's argument limit.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const statusKey = (policy: PolicyDefinition) => `${policy.id}Status`;
+const descriptionKey = (policy: PolicyDefinition) => `${policy.id}Description`;
+const regionsKey = (policy: PolicyDefinition) => `${policy.id}Regions`;
+const confidenceKey = (policy: PolicyDefinition) => `${policy.id}Confidence`;
+
+// The model reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+const BOX_SCALE = 1000;
+
+// Embedded ownership claims are handed to the copyright check as evidence alongside the pixels;
+// author names only as context, since cameras write them on the team's own photos too.
+const buildRightsEvidence = (rights: RightsInfo | null | undefined) => {
+  if (!rights) return '';
+  const claims = rights.claims.length === 0 ? '' : `
+    Evidence: the file's embedded metadata claims ownership of this image:
+    ${rights.claims.map(claim => `- ${claim}`).join('\n    ')}
+    Treat this as a clear sign of copyright ownership by a third party.
+`;
+  const attributions = rights.attributions.length === 0 ? '' : `
+    Context: the file's embedded metadata names an author or credit:
+    ${rights.attributions.map(attribution => `- ${attribution}`).join('\n    ')}
+    An author name alone does not mean a third party owns the image; weigh it together with what is visible.
+`;
+  return claims + attributions;
+};
+
+const buildPolicySection = (policy: PolicyDefinition, rights?: RightsInfo | null) => `
+    Perform a separate validation rule called "${policy.label} policy".
+    ${policy.prompt.split('\n').join('\n    ')}
+${policy.id === COPYRIGHT_POLICY_ID ? buildRightsEvidence(rights) : ''}
+    If any "${policy.label} policy" violations are found, respond with 'found' for the '${statusKey(policy)}' key. Otherwise, respond with 'pass'. Provide a brief explanation of the ${policy.label} policy findings in the '${descriptionKey(policy)}' key.
+    Rate how certain you are of the ${policy.label} policy verdict from 0 to 1 in the '${confidenceKey(policy)}' key. Use a low value for borderline cases or when the relevant part of the image is hard to make out.
+    For every ${policy.label} policy violation that is visible in a specific area, add an entry to the '${regionsKey(policy)}' array with a short 'label' naming what was found (e.g. 'watermark', 'brand logo') and a 'box_2d' bounding box as [ymin, xmin, ymax, xmax] normalized to 0-${BOX_SCALE}. Leave the array empty for a pass.
+`;
+
+export interface AnalysisOptions {
+  // Rights fields read from the file; ownership claims are evidence for the copyright check.
+  rights?: RightsInfo | null;
+  // Verdicts with a lower confidence are marked 'review'.
+  reviewThreshold?: number;
+  // Platforms to write metadata for; defaults to the Zedge profile.
+  platforms?: PlatformProfile[];
+  // Labeled example images sent after the prompt, for the enabled policies only.
+  references?: ReferenceImage[];
+  // Cancels every request made for the image.
+  signal?: AbortSignal;
+}
+
+const DEFAULT_PLATFORMS = [PLATFORM_PROFILES[DEFAULT_PLATFORM_ID]];
+
+const describeRules = (rules: MetadataRules) => {
+  const tagFormat = rules.tagStyle === 'underscore'
+    ? `with no spaces, words separated by an underscore '_'`
+    : 'a plain lowercase word or short phrase, words separated by single spaces, with no punctuation';
+  return `Rules: the title has at most ${rules.titleMaxLength} characters; the description ('imageDescription') has at most ${rules.descriptionMaxLength} characters; there are ${describeTagCount(rules)} tags, each ${tagFormat}, and less than ${rules.tagMaxLength + 1} characters.
+    None of the fields may contain any of the following words or concepts: ${rules.forbiddenWords.join(', ')} or any film names or TV season names.`;
+};
+
+const buildPlatformSection = (platform: PlatformProfile) => `
+    Platform '${platform.id}' (${platform.label}):
+    ${platform.guidance}
+    ${describeRules(platform.rules)}
+`;
+
+const buildReferenceSection = (references: ReferenceImage[]) => references.length === 0 ? '' : `
+    After these instructions there ${references.length === 1 ? 'is 1 labeled reference image' : `are ${references.length} labeled reference images`}. Each one follows a caption that names its policy and says whether it shows a violation or acceptable content.
+    Use them only to calibrate your verdicts for that policy on the first image. Do not analyze, describe or write metadata for the reference images themselves.
+`;
+
+// A caption and the image for each reference, in the order they are described in the prompt.
+export const buildReferenceParts = (references: ReferenceImage[], policies: PolicyDefinition[]): ContentPart[] => references.flatMap((reference, index) => {
+  const label = policies.find(policy => policy.id === reference.policyId)?.label ?? reference.policyId;
+  const verdict = reference.label === 'violation' ? `shows a VIOLATION ('found')` : `is ACCEPTABLE ('pass')`;
+  return [
+    { text: `Reference ${index + 1} for the ${label} policy ${verdict}.${reference.caption ? ` ${reference.caption}` : ''}` },
+    { inlineData: { data: reference.data, mimeType: reference.mimeType } },
+  ];
+});
+
+export const buildAnalysisPrompt = (policies: PolicyDefinition[], rights?: RightsInfo | null, platforms: PlatformProfile[] = DEFAULT_PLATFORMS, references: ReferenceImage[] = []): string => {
+  const statusKeys = policies.map(policy => `'${statusKey(policy)}'`).join(', ');
+  const policyKeys = policies.map(policy => `
+    '${statusKey(policy)}' (with a value of 'pass' or 'found' for the ${policy.label} policy),
+    '${descriptionKey(policy)}' (a brief explanation of the ${policy.label} policy findings),
+    '${confidenceKey(policy)}' (your confidence in the ${policy.label} policy verdict, from 0 to 1),
+    '${regionsKey(policy)}' (the bounding boxes of the ${policy.label} policy violations),`).join('');
+
+  return `${policies.map(policy => buildPolicySection(policy, rights)).join('')}
+    If all statuses (${statusKeys}) are 'pass', also write stock image metadata for each of the following platforms. Each platform gets its own 'title', description ('imageDescription') and 'tags', written for that platform's audience and rules.
+${platforms.map(buildPlatformSection).join('')}
+    Respond with a JSON object containing the keys:${policyKeys}
+    and 'metadata' (if all statuses are 'pass', an object with one entry per platform id: ${platforms.map(platform => `'${platform.id}'`).join(', ')}, each holding 'title', 'imageDescription' and 'tags').
+${buildReferenceSection(references)}    `;
+};
+
+export const buildResponseSchema = (policies: PolicyDefinition[], platforms: PlatformProfile[] = DEFAULT_PLATFORMS) => {
+  const properties: Record<string, any> = {};
+  policies.forEach(policy => {
+    properties[statusKey(policy)] = { type: Type.STRING, enum: ['pass', 'found'] };
+    properties[descriptionKey(policy)] = { type: Type.STRING };
+    properties[confidenceKey(policy)] = { type: Type.NUMBER };
+    properties[regionsKey(policy)] = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+        },
+        required: ['label', 'box_2d'],
+      },
+    };
+  });
+  const platformProperties: Record<string, any> = {};
+  platforms.forEach(platform => {
+    platformProperties[platform.id] = {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        imageDescription: { type: Type.STRING },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+    };
+  });
+  properties.metadata = { type: Type.OBJECT, properties: platformProperties };
+  return { type: Type.OBJECT, properties };
+};
+
+const describeMetadata = (current: MetadataFields) => `Title: ${current.title ?? ''}
+    Description: ${current.imageDescription ?? ''}
+    Tags: ${current.tags.join(', ')}`;
+
+const buildRepairPrompt = (current: MetadataFields, issues: ValidationIssue[], fields: MetadataField[], platform: PlatformProfile): string => `
+    You previously generated ${platform.label} stock image metadata for the uploaded image:
+    ${describeMetadata(current)}
+
+    Some of it breaks the required rules:
+    ${issues.map(issue => `- ${issue.message}`).join('\n    ')}
+
+    Rewrite only the following fields so that they comply: ${fields.map(field => `'${field}'`).join(', ')}. Keep the same subject and tone.
+    ${describeRules(platform.rules)}
+
+    Respond with a JSON object containing only the keys ${fields.map(field => `'${field}'`).join(', ')}.
+    `;
+
+const buildRepairSchema = (fields: MetadataField[]) => {
+  const properties: Record<string, any> = {};
+  fields.forEach(field => {
+    properties[field] = field === 'tags' ? { type: Type.ARRAY, items: { type: Type.STRING } } : { type: Type.STRING };
+  });
+  return { type: Type.OBJECT, properties, required: fields };
+};
+
+// Converts the model's 0-1000 [ymin, xmin, ymax, xmax] boxes to normalized regions, dropping malformed or empty ones.
+const parseRegions = (raw: any): Region[] => {
+  if (!Array.isArray(raw)) return [];
+  const clamp = (value: number) => Math.min(Math.max(value / BOX_SCALE, 0), 1);
+  return raw.flatMap(entry => {
+    const box = entry?.box_2d;
+    if (!Array.isArray(box) || box.length !== 4 || !box.every(value => typeof value === 'number' && isFinite(value))) return [];
+    const [ymin, xmin, ymax, xmax] = box.map(clamp);
+    if (xmax <= xmin || ymax <= ymin) return [];
+    return [{ label: typeof entry.label === 'string' ? entry.label : '', x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin }];
+  });
+};
+
+const parseConfidence = (raw: any): number | null => typeof raw === 'number' && isFinite(raw) ? Math.min(Math.max(raw, 0), 1) : null;
+
+const parsePlatformMetadata = (raw: any, platform: PlatformProfile): PlatformMetadata => ({
+  platformId: platform.id,
+  title: typeof raw?.title === 'string' ? raw.title : null,
+  imageDescription: typeof raw?.imageDescription === 'string' ? raw.imageDescription : null,
+  tags: Array.isArray(raw?.tags) ? raw.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+  validationIssues: [],
+  repairedFields: [],
+});
+
+// The model only writes metadata when it passes every policy, so a result with a low-confidence pass still has it.
+const passedByModel = (result: Pick<AnalysisResult, 'policies'>) => result.policies.every(policy => policy.modelStatus === 'pass' && policy.status !== 'found');
+
+// Maps the model's flat JSON response back onto the policies that were asked for.
+// Verdicts below the review threshold become 'review'. An ownership claim in the file's metadata
+// always makes the copyright check 'found', whatever the model said.
+export const interpretResponse = (parsedJson: any, policies: PolicyDefinition[], { rights, reviewThreshold = DEFAULT_REVIEW_THRESHOLD, platforms = DEFAULT_PLATFORMS }: AnalysisOptions = {}): AnalysisResult => {
+  const policyResults: PolicyResult[] = policies.map(policy => {
+    const modelStatus = (parsedJson[statusKey(policy)] ?? null) as Status;
+    const confidence = parseConfidence(parsedJson[confidenceKey(policy)]);
+    const result: PolicyResult = {
+      id: policy.id,
+      label: policy.label,
+      icon: policy.icon,
+      status: modelStatus && confidence !== null && confidence < reviewThreshold ? 'review' : modelStatus,
+      description: parsedJson[descriptionKey(policy)] ?? null,
+      modelStatus,
+      confidence,
+      override: null,
+      color: getPolicyColor(policy),
+      regions: modelStatus === 'found' ? parseRegions(parsedJson[regionsKey(policy)]) : [],
+    };
+    if (policy.id === COPYRIGHT_POLICY_ID && rights && rights.claims.length > 0 && result.status !== 'found') {
+      result.status = 'found';
+      result.description = `Embedded file metadata claims ownership (${rights.claims.join('; ')}). ${result.description ?? ''}`.trim();
+    }
+    return result;
+  });
+  const allPass = passedByModel({ policies: policyResults });
+
+  return {
+    policies: policyResults,
+    metadata: allPass ? platforms.map(platform => parsePlatformMetadata(parsedJson.metadata?.[platform.id], platform)) : [],
+  };
+};
+
+// Validates one platform's metadata and, if any rule is broken, asks the model once to fix only the failing fields.
+const validateAndRepair = async (metadata: PlatformMetadata, imagePart: ContentPart, provider: AnalysisProvider, signal?: AbortSignal): Promise<PlatformMetadata> => {
+  const platform = PLATFORM_PROFILES[metadata.platformId];
+  const issues = validateMetadata(metadata, platform.rules);
+  if (issues.length === 0) return metadata;
+
+  const fields = getFailedFields(issues);
+  const repaired = { ...metadata, repairedFields: fields };
+  try {
+    const fix = await provider.generateJson({
+      purpose: 'repair',
+      parts: [imagePart, { text: buildRepairPrompt(metadata, issues, fields, platform) }],
+      responseSchema: buildRepairSchema(fields),
+    }, signal);
+    if (fields.includes('title') && typeof fix.title === 'string') repaired.title = fix.title;
+    if (fields.includes('imageDescription') && typeof fix.imageDescription === 'string') repaired.imageDescription = fix.imageDescription;
+    if (fields.includes('tags') && Array.isArray(fix.tags)) repaired.tags = fix.tags;
+  } catch (e: any) {
+    if (classifyError(e) === 'cancelled') throw e;
+    // Otherwise keep the original metadata; the remaining issues are still reported below.
+  }
+  return { ...repaired, validationIssues: validateMetadata(repaired, platform.rules) };
+};
+
+// Runs every enabled policy check and metadata generation for a single image.
+// Throws on any API or parsing failure so callers can record the error per image.
+export const analyzeImage = async (imageFile: File, policyDefinitions: PolicyDefinition[], provider: AnalysisProvider, options: AnalysisOptions = {}): Promise<AnalysisResult> => {
+  const policies = policyDefinitions.filter(policy => policy.enabled);
+  const base64Data = await fileToBase64(imageFile);
+
+  const references = (options.references ?? []).filter(reference => policies.some(policy => policy.id === reference.policyId));
+
+  // The image under review comes first, so that fixtures and the prompt can refer to it as the first image.
+  const imagePart: ContentPart = { inlineData: { data: base64Data, mimeType: imageFile.type } };
+  const textPart: ContentPart = { text: buildAnalysisPrompt(policies, options.rights, options.platforms, references) };
+
+  const parsedJson = await provider.generateJson({
+    purpose: 'analysis',
+    parts: [imagePart, textPart, ...buildReferenceParts(references, policies)],
+    responseSchema: buildResponseSchema(policies, options.platforms),
+  }, options.signal);
+  const result = interpretResponse(parsedJson, policies, options);
+  if (!passedByModel(result)) return result;
+  const metadata = await Promise.all(result.metadata.map(entry => validateAndRepair(entry, imagePart, provider, options.signal)));
+  return { ...result, metadata };
+};
+
+// A result counts as 'found' for the queue as soon as any single policy is violated,
+// and as 'review' while any verdict is still waiting for a reviewer.
+export const getOverallStatus = (result: AnalysisResult): 'pass' | 'found' | 'review' => {
+  if (result.policies.some(policy => policy.status === 'found')) return 'found';
+  return result.policies.some(policy => policy.status === 'review') ? 'review' : 'pass';
+};
+
+const buildRegeneratePrompt = (current: MetadataFields, field: MetadataField, tagIndexes: number[], platform: PlatformProfile): string => {
+  const replaced = tagIndexes.map(index => current.tags[index]);
+  const kept = current.tags.filter((_tag, index) => !tagIndexes.includes(index));
+  const task = field === 'tags'
+    ? `Replace these tags: ${replaced.join(', ')}. Respond with exactly ${replaced.length} new ${replaced.length === 1 ? 'tag' : 'tags'} in the 'tags' key. They must describe the image, must differ from the replaced tags and must not repeat any of the kept tags: ${kept.join(', ') || '(none)'}.`
+    : `Write a new ${field === 'title' ? 'title' : 'description'} in the '${field}' key that describes the image differently from the current one and fits the other fields.`;
+
+  return `
+    ${platform.label} stock image metadata for the uploaded image currently reads:
+    ${describeMetadata(current)}
+
+    ${task}
+    ${platform.guidance}
+    ${describeRules(platform.rules)}
+
+    Respond with a JSON object containing only the key '${field}'.
+    `;
+};
+
+// Re-generates a single metadata field, or only the chosen tags, with the other fields as context.
+// The policy checks are not repeated. Returns the updated fields with the rules checked again.
+export const regenerateMetadata = async (imageFile: File, current: MetadataFields, field: MetadataField, platform: PlatformProfile, provider: AnalysisProvider, tagIndexes: number[] = [], signal?: AbortSignal): Promise<MetadataFields & { validationIssues: ValidationIssue[] }> => {
+  const indexes = field === 'tags' && tagIndexes.length === 0 ? current.tags.map((_tag, index) => index) : tagIndexes;
+  const base64Data = await fileToBase64(imageFile);
+  const fix = await provider.generateJson({
+    purpose: 'regenerate',
+    parts: [{ inlineData: { data: base64Data, mimeType: imageFile.type } }, { text: buildRegeneratePrompt(current, field, indexes, platform) }],
+    responseSchema: buildRepairSchema([field]),
+  }, signal);
+
+  const updated: MetadataFields = { ...current };
+  if (field === 'tags') {
+    if (!Array.isArray(fix.tags)) throw new Error('The response did not contain any tags.');
+    const replacements = fix.tags.filter((tag: unknown): tag is string => typeof tag === 'string' && tag.trim() !== '');
+    updated.tags = current.tags.map((tag, index) => {
+      const position = indexes.indexOf(index);
+      return position !== -1 && position < replacements.length ? replacements[position].trim() : tag;
+    });
+  } else {
+    if (typeof fix[field] !== 'string' || !fix[field].trim()) throw new Error(`The response did not contain a new ${METADATA_FIELD_LABELS[field].toLowerCase()}.`);
+    updated[field] = fix[field].trim();
+  }
+  return { ...updated, validationIssues: validateMetadata(updated, platform.rules) };
+};
@@ -0,0 +1,55 @@
+import { GenerateJsonRequest, SpeechRequest } from './providers/types';
+
+// Request and response shapes shared by the API server and the browser client.
+
+export type AnalyzeRequestBody = GenerateJsonRequest;
+
+export interface AnalyzeResponseBody {
+  result: any;
+}
+
+export type TtsRequestBody = SpeechRequest;
+
+export interface TtsResponseBody {
+  // Base64 encoded 16-bit mono PCM.
+  audio: string;
+  sampleRate: number;
+}
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'server_misconfigured'
+  | 'quota_exceeded'
+  | 'upstream_auth'
+  | 'safety_blocked'
+  | 'invalid_response'
+  | 'upstream_timeout'
+  | 'upstream_error'
+  | 'internal_error';
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Seconds until the client may try again, for 'rate_limited'.
+    retryAfter?: number;
+  };
+}
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  retryAfter?: number;
+
+  constructor(status: number, { code, message, retryAfter }: ApiErrorBody['error']) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
@@ -0,0 +1,42 @@
+// Helper function to convert base64 to ArrayBuffer
+export const base64ToArrayBuffer = (base64: string) => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+// Helper function to convert PCM audio data to WAV format
+export const pcmToWav = (pcmData: Int16Array, sampleRate: number) => {
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  const byteRate = numChannels * bitsPerSample / 8 * sampleRate;
+  const blockAlign = numChannels * bitsPerSample / 8;
+  const buffer = new ArrayBuffer(44 + pcmData.length * 2);
+  const view = new DataView(buffer);
+
+  view.setUint32(0, 0x52494646, false); // 'RIFF'
+  view.setUint32(4, 36 + pcmData.length * 2, true); // file length
+  view.setUint32(8, 0x57415645, false); // 'WAVE'
+  view.setUint32(12, 0x666d7420, false); // 'fmt '
+  view.setUint32(16, 16, true); // format chunk length
+  view.setUint16(20, 1, true); // sample format (1 for PCM)
+  view.setUint16(22, numChannels, true); // number of channels
+  view.setUint32(24, sampleRate, true); // sample rate
+  view.setUint32(28, byteRate, true); // byte rate
+  view.setUint16(32, blockAlign, true); // block align
+  view.setUint16(34, bitsPerSample, true); // bits per sample
+  view.setUint32(36, 0x64617461, false); // 'data'
+  view.setUint32(40, pcmData.length * 2, true); // data chunk length
+
+  let offset = 44;
+  for (let i = 0; i < pcmData.length; i++) {
+    view.setInt16(offset, pcmData[i], true);
+    offset += 2;
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
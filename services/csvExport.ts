@@ -0,0 +1,86 @@
+import { AgencyId, AgencyProfile, ExportRow, tagToKeyword } from './agencies';
+import { PlatformMetadata } from '../types';
+
+export interface RowReport {
+  fileName: string;
+  problems: string[];
+}
+
+// An analyzed image with the metadata generated for each platform.
+export interface ExportSource {
+  fileName: string;
+  metadata: PlatformMetadata[];
+}
+
+export interface AgencyExport {
+  csv: string;
+  fileName: string;
+  report: RowReport[];
+}
+
+// Quotes a CSV cell when it contains a delimiter, quote or line break (RFC 4180).
+export const toCsvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const usesColumn = (profile: AgencyProfile, header: string) => profile.columns.some(column => column.header.toLowerCase() === header);
+
+// Lists everything in a row that the agency's upload form would reject.
+export const checkRowForAgency = (profile: AgencyProfile, row: ExportRow, keywords: string[]): string[] => {
+  const { titleMaxLength, descriptionMaxLength, minKeywords, maxKeywords } = profile.limits;
+  const problems: string[] = [];
+
+  if (usesColumn(profile, 'title')) {
+    if (!row.title.trim()) problems.push('Title is missing.');
+    else if (titleMaxLength !== null && row.title.length > titleMaxLength) problems.push(`Title is ${row.title.length} characters; ${profile.label} allows ${titleMaxLength}.`);
+  }
+  if (usesColumn(profile, 'description')) {
+    if (!row.description.trim()) problems.push('Description is missing.');
+    else if (descriptionMaxLength !== null && row.description.length > descriptionMaxLength) problems.push(`Description is ${row.description.length} characters; ${profile.label} allows ${descriptionMaxLength}.`);
+  }
+  if (keywords.length < minKeywords) problems.push(`${keywords.length} keywords; ${profile.label} requires at least ${minKeywords}.`);
+  if (keywords.length > maxKeywords) problems.push(`${keywords.length} keywords; ${profile.label} allows at most ${maxKeywords}.`);
+
+  const seen = new Set<string>();
+  const duplicates = keywords.filter(keyword => {
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+  if (duplicates.length > 0) problems.push(`Duplicate keywords: ${duplicates.join(', ')}.`);
+
+  const withSeparator = keywords.filter(keyword => keyword.includes(profile.keywordSeparator));
+  if (withSeparator.length > 0) problems.push(`Keywords contain the separator "${profile.keywordSeparator}": ${withSeparator.join(', ')}.`);
+
+  return problems;
+};
+
+// Uses the metadata written for the agency itself, falling back to the first platform generated for the image.
+export const selectExportRows = (sources: ExportSource[], agencyId: AgencyId): ExportRow[] => sources.flatMap(({ fileName, metadata }) => {
+  const entry = metadata.find(current => current.platformId === agencyId) ?? metadata[0];
+  if (!entry?.title) return [];
+  return [{ fileName, title: entry.title, description: entry.imageDescription || '', tags: entry.tags }];
+});
+
+export const buildAgencyExport = (profile: AgencyProfile, rows: ExportRow[]): AgencyExport => {
+  const lines = [profile.columns.map(column => toCsvField(column.header)).join(',')];
+  const report: RowReport[] = [];
+
+  rows.forEach(row => {
+    const keywords = row.tags.map(tagToKeyword).filter(Boolean);
+    lines.push(profile.columns.map(column => toCsvField(column.value(row, keywords))).join(','));
+    report.push({ fileName: row.fileName, problems: checkRowForAgency(profile, row, keywords) });
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return { csv: lines.join('\r\n') + '\r\n', fileName: `${profile.id}-metadata-${date}.csv`, report };
+};
+
+// Helper function to save a Blob through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,50 @@
+const DB_NAME = 'image-copyright-assistant';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'analyses';
+export const AUDIT_STORE = 'auditLog';
+export const REFERENCE_STORE = 'references';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens (and on first use creates or upgrades) the app's IndexedDB database.
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'hash' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+          const store = db.createObjectStore(AUDIT_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('reviewedAt', 'reviewedAt');
+        }
+        if (!db.objectStoreNames.contains(REFERENCE_STORE)) {
+          const store = db.createObjectStore(REFERENCE_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Helper function to run a single request against an object store and resolve with its result
+export const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,159 @@
+import { PlatformMetadata, Verdict } from '../types';
+import { PlatformId } from './platforms';
+
+// A labeled image: its path relative to the manifest and the expected verdict per policy id.
+// Policies left out of 'expected' are not scored for that image.
+export interface ManifestEntry {
+  file: string;
+  expected: Record<string, Verdict>;
+}
+
+export interface Manifest {
+  images: ManifestEntry[];
+}
+
+// What the pipeline decided for one policy; 'error' when the image could not be analyzed at all.
+export type Outcome = 'pass' | 'found' | 'review' | 'error';
+
+export interface EvaluatedImage {
+  file: string;
+  expected: Record<string, Verdict>;
+  actual: Record<string, Outcome>;
+  metadata: PlatformMetadata[];
+  error: string | null;
+}
+
+// Rows are the expected verdict, columns what the pipeline decided.
+export type ConfusionMatrix = Record<Verdict, Record<Outcome, number>>;
+
+// 'found' is the positive class: precision is the share of flagged images that really violate the policy,
+// recall the share of real violations that were flagged. Verdicts sent to review count against neither.
+export interface PolicyScore {
+  policyId: string;
+  total: number;
+  matrix: ConfusionMatrix;
+  precision: number | null;
+  recall: number | null;
+  accuracy: number | null;
+}
+
+export interface MetadataScore {
+  platformId: PlatformId;
+  generated: number;
+  // Entries that needed the automatic repair request.
+  repaired: number;
+  // Entries that pass every rule after repair.
+  valid: number;
+  // How often each rule message was still broken, with the numbers in the message stripped so that similar issues group.
+  issues: Record<string, number>;
+}
+
+export interface Regression {
+  policyId: string;
+  metric: 'precision' | 'recall' | 'accuracy';
+  before: number;
+  after: number;
+}
+
+export interface ChangedVerdict {
+  file: string;
+  policyId: string;
+  expected: Verdict;
+  before: Outcome;
+  after: Outcome;
+}
+
+const VERDICTS: Verdict[] = ['pass', 'found'];
+
+export const parseManifest = (json: unknown): Manifest => {
+  const images = (json as any)?.images;
+  if (!Array.isArray(images) || images.length === 0) throw new Error("The manifest must have a non-empty 'images' array.");
+  images.forEach((entry, index) => {
+    if (typeof entry?.file !== 'string' || !entry.file) throw new Error(`images[${index}] needs a 'file' path.`);
+    const expected = entry.expected;
+    if (typeof expected !== 'object' || expected === null || Object.keys(expected).length === 0) {
+      throw new Error(`images[${index}] (${entry.file}) needs an 'expected' object mapping policy ids to 'pass' or 'found'.`);
+    }
+    Object.entries(expected).forEach(([policyId, verdict]) => {
+      if (!VERDICTS.includes(verdict as Verdict)) throw new Error(`images[${index}] (${entry.file}) expects '${verdict}' for ${policyId}; use 'pass' or 'found'.`);
+    });
+  });
+  return { images };
+};
+
+const emptyMatrix = (): ConfusionMatrix => ({
+  pass: { pass: 0, found: 0, review: 0, error: 0 },
+  found: { pass: 0, found: 0, review: 0, error: 0 },
+});
+
+const ratio = (numerator: number, denominator: number) => denominator === 0 ? null : numerator / denominator;
+
+// Scores every policy that at least one image has an expectation for, in order of first appearance.
+export const scorePolicies = (images: EvaluatedImage[]): PolicyScore[] => {
+  const policyIds = Array.from(new Set(images.flatMap(image => Object.keys(image.expected))));
+  return policyIds.map(policyId => {
+    const matrix = emptyMatrix();
+    let total = 0;
+    images.forEach(image => {
+      const expected = image.expected[policyId];
+      if (!expected) return;
+      matrix[expected][image.actual[policyId] ?? 'error']++;
+      total++;
+    });
+    const truePositives = matrix.found.found;
+    const trueNegatives = matrix.pass.pass;
+    return {
+      policyId,
+      total,
+      matrix,
+      precision: ratio(truePositives, truePositives + matrix.pass.found),
+      recall: ratio(truePositives, truePositives + matrix.found.pass),
+      accuracy: ratio(truePositives + trueNegatives, total),
+    };
+  });
+};
+
+export const scoreMetadata = (images: EvaluatedImage[]): MetadataScore[] => {
+  const scores = new Map<PlatformId, MetadataScore>();
+  images.flatMap(image => image.metadata).forEach(entry => {
+    if (!entry.title && entry.tags.length === 0) return;
+    const score = scores.get(entry.platformId) ?? { platformId: entry.platformId, generated: 0, repaired: 0, valid: 0, issues: {} };
+    score.generated++;
+    if (entry.repairedFields.length > 0) score.repaired++;
+    if (entry.validationIssues.length === 0) score.valid++;
+    entry.validationIssues.forEach(issue => {
+      const key = issue.message.replace(/:.*$/, '').replace(/\d+/g, 'N');
+      score.issues[key] = (score.issues[key] ?? 0) + 1;
+    });
+    scores.set(entry.platformId, score);
+  });
+  return Array.from(scores.values());
+};
+
+// Every metric of the candidate that dropped below the baseline for the same policy.
+export const findRegressions = (baseline: PolicyScore[], candidate: PolicyScore[]): Regression[] => {
+  const regressions: Regression[] = [];
+  candidate.forEach(score => {
+    const before = baseline.find(current => current.policyId === score.policyId);
+    if (!before) return;
+    (['precision', 'recall', 'accuracy'] as const).forEach(metric => {
+      const [previous, next] = [before[metric], score[metric]];
+      if (previous !== null && next !== null && next < previous) regressions.push({ policyId: score.policyId, metric, before: previous, after: next });
+    });
+  });
+  return regressions;
+};
+
+// Verdicts that differ between two runs over the same manifest, so a reviewer can look at the actual images.
+export const findChangedVerdicts = (baseline: EvaluatedImage[], candidate: EvaluatedImage[]): ChangedVerdict[] => {
+  const changes: ChangedVerdict[] = [];
+  candidate.forEach(image => {
+    const before = baseline.find(current => current.file === image.file);
+    if (!before) return;
+    Object.entries(image.expected).forEach(([policyId, expected]) => {
+      const [previous, next] = [before.actual[policyId] ?? 'error', image.actual[policyId] ?? 'error'];
+      if (previous !== next) changes.push({ file: image.file, policyId, expected, before: previous, after: next });
+    });
+  });
+  return changes;
+};
@@ -0,0 +1,45 @@
+// Helper function to read every entry of a directory (readEntries returns results in chunks)
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    const readChunk = () => {
+      reader.readEntries(chunk => {
+        if (chunk.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...chunk);
+          readChunk();
+        }
+      }, reject);
+    };
+    readChunk();
+  });
+};
+
+// Helper function to flatten a FileSystemEntry (file or folder) into a list of Files
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const fileEntry = entry as FileSystemFileEntry;
+    return new Promise((resolve, reject) => fileEntry.file(file => resolve([file]), reject));
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(entryToFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+// Collects all files from a drop event, descending into any dropped folders.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files || []);
+  }
+
+  const nested = await Promise.all(entries.map(entryToFiles));
+  return nested.flat();
+};
@@ -0,0 +1,5 @@
+// Helper function to compute the hex encoded SHA-256 digest of some bytes
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,123 @@
+import { AnalysisOptions } from './analysis';
+import { HISTORY_STORE, runRequest } from './db';
+import { sha256Hex } from './hash';
+import { AnalysisResult, HistoryRecord, PolicyDefinition, Status } from '../types';
+
+const THUMBNAIL_MAX_EDGE = 160;
+
+export const hashFile = async (file: File): Promise<string> => sha256Hex(await file.arrayBuffer());
+
+// Hashes everything besides the image that shapes a result. A cached result is only reused when its key matches, so changing
+// a prompt, the platforms, the reference images, the review threshold, the maximum image edge or the model leads to a fresh analysis.
+// Cosmetic policy settings such as the color or icon are left out.
+export const getAnalysisConfigKey = (
+  policies: PolicyDefinition[],
+  { platforms = [], references = [], reviewThreshold, maxImageEdge }: Omit<AnalysisOptions, 'rights' | 'signal'> & { maxImageEdge: number },
+  model: string,
+): Promise<string> => {
+  const config = {
+    policies: policies.filter(policy => policy.enabled).map(({ id, label, prompt }) => ({ id, label, prompt })),
+    platforms: platforms.map(platform => platform.id),
+    // Stored reference images never change, so their id stands in for the image data.
+    references: references.map(({ id, policyId, label, caption }) => ({ id, policyId, label, caption })),
+    reviewThreshold,
+    maxImageEdge,
+    model,
+  };
+  return sha256Hex(new TextEncoder().encode(JSON.stringify(config)));
+};
+
+// Renders a small JPEG data URL so the history view does not need the original file.
+export const createThumbnail = async (file: File): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, THUMBNAIL_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+export const getHistoryRecord = (hash: string): Promise<HistoryRecord | undefined> =>
+  runRequest(HISTORY_STORE, 'readonly', store => store.get(hash));
+
+export const saveHistoryRecord = (record: HistoryRecord): Promise<void> =>
+  runRequest(HISTORY_STORE, 'readwrite', store => store.put(record));
+
+// Changes the result of a saved record. Reading and writing happen in one transaction so that concurrent updates are not lost.
+export const updateHistoryResult = (hash: string, update: (result: AnalysisResult) => AnalysisResult): Promise<void> =>
+  runRequest(HISTORY_STORE, 'readwrite', store => {
+    const request = store.get(hash);
+    request.onsuccess = () => {
+      const record: HistoryRecord | undefined = request.result;
+      if (record) store.put({ ...record, result: update(record.result) });
+    };
+    return request;
+  });
+
+export const deleteHistoryRecord = (hash: string): Promise<void> =>
+  runRequest(HISTORY_STORE, 'readwrite', store => store.delete(hash));
+
+export const clearHistory = (): Promise<void> =>
+  runRequest(HISTORY_STORE, 'readwrite', store => store.clear());
+
+// All records, newest first.
+export const listHistoryRecords = async (): Promise<HistoryRecord[]> => {
+  const records = await runRequest<HistoryRecord[]>(HISTORY_STORE, 'readonly', store => store.index('createdAt').getAll());
+  return records.reverse();
+};
+
+export const recordAnalysis = async (file: File, hash: string, result: AnalysisResult, model: string, configKey: string): Promise<HistoryRecord> => {
+  let thumbnail = '';
+  try {
+    thumbnail = await createThumbnail(file);
+  } catch {
+    // Some formats cannot be decoded by the browser; the record is still useful without a thumbnail.
+  }
+  const record: HistoryRecord = { hash, fileName: file.name, thumbnail, result, model, configKey, createdAt: Date.now() };
+  await saveHistoryRecord(record);
+  return record;
+};
+
+export type HistoryDateRange = 'all' | 'day' | 'week' | 'month';
+
+export interface HistoryFilter {
+  query: string;
+  policyId: string;
+  status: 'any' | 'pass' | 'found' | 'review';
+  range: HistoryDateRange;
+}
+
+const RANGE_MS: Record<Exclude<HistoryDateRange, 'all'>, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+const recordText = ({ fileName, result }: HistoryRecord) => [
+  fileName,
+  ...(result.metadata ?? []).flatMap(entry => [entry.title, entry.imageDescription, ...(entry.tags ?? [])]),
+  ...(result.policies ?? []).map(policy => policy.description),
+].filter(Boolean).join(' ').toLowerCase();
+
+// Applies the history view filters, e.g. "Kids, found, last week" for all Kids violations of the past 7 days.
+// With a policy selected the status filter applies to that policy; otherwise to the overall verdict,
+// where a single 'found' or 'review' policy is enough to match.
+export const filterHistory = (records: HistoryRecord[], { query, policyId, status, range }: HistoryFilter, now = Date.now()): HistoryRecord[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return records.filter(record => {
+    if (range !== 'all' && now - record.createdAt > RANGE_MS[range]) return false;
+
+    const policies = policyId ? record.result.policies.filter(policy => policy.id === policyId) : record.result.policies;
+    if (policyId && policies.length === 0) return false;
+    if (status !== 'any') {
+      const matches = (policyStatus: Status) => policyStatus === status;
+      const ok = status === 'pass' ? policies.every(policy => matches(policy.status)) : policies.some(policy => matches(policy.status));
+      if (!ok) return false;
+    }
+
+    const text = recordText(record);
+    return terms.every(term => text.includes(term));
+  });
+};
@@ -0,0 +1,65 @@
+export const textEncoder = new TextEncoder();
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+export const readUint16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+export const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+export const uint16BE = (value: number) => new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+
+export const uint32BE = (value: number) => new Uint8Array([(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+
+export const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+// True if the bytes at offset spell out the given ASCII string.
+export const startsWithAscii = (bytes: Uint8Array, offset: number, text: string) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// Truncates a string so its UTF-8 encoding fits in maxBytes without splitting a character.
+export const utf8Truncate = (text: string, maxBytes: number): Uint8Array => {
+  let encoded = textEncoder.encode(text);
+  if (encoded.length <= maxBytes) return encoded;
+  let chars = Array.from(text);
+  while (chars.length > 0 && encoded.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    encoded = textEncoder.encode(chars.join(''));
+  }
+  return encoded;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 as used by PNG chunks.
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
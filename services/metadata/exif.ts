@@ -0,0 +1,78 @@
+import { RightsField } from './types';
+
+// EXIF/TIFF tags of interest in IFD0 (all ASCII).
+const TIFF_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const ASCII_TYPE = 2;
+const ORIENTATION_TAG = 0x0112;
+
+interface Ifd0 {
+  view: DataView;
+  little: boolean;
+  // Byte offset of each 12-byte directory entry.
+  entries: number[];
+}
+
+// Helper function to locate the IFD0 entries of a TIFF structure. Returns null if the header is invalid.
+const readIfd0 = (tiff: Uint8Array): Ifd0 | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const byteOrder = String.fromCharCode(tiff[0], tiff[1]);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+  const little = byteOrder === 'II';
+  if (view.getUint16(2, little) !== 42) return null;
+
+  const ifdOffset = view.getUint32(4, little);
+  if (ifdOffset + 2 > tiff.length) return null;
+  const entryCount = view.getUint16(ifdOffset, little);
+  const entries: number[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    entries.push(entry);
+  }
+  return { view, little, entries };
+};
+
+// Reads the rights related ASCII tags from a TIFF structure (the body of an EXIF block).
+export const readTiffRights = (tiff: Uint8Array): RightsField[] => {
+  const ifd0 = readIfd0(tiff);
+  if (!ifd0) return [];
+  const { view, little, entries } = ifd0;
+  const fields: RightsField[] = [];
+
+  entries.forEach(entry => {
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    if (!TIFF_TAGS[tag] || type !== ASCII_TYPE) return;
+
+    const valueOffset = count <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (valueOffset + count > tiff.length) return;
+    // The Copyright tag may hold "photographer\0editor"; each part is reported separately.
+    new TextDecoder().decode(tiff.subarray(valueOffset, valueOffset + count))
+      .split('\0')
+      .map(value => value.trim())
+      .filter(Boolean)
+      .forEach(value => fields.push({ source: 'EXIF', name: TIFF_TAGS[tag], value }));
+  });
+  return fields;
+};
+
+// Reads the Orientation tag (1-8) from a TIFF structure. 1 means upright and is also assumed when the tag is missing.
+export const readTiffOrientation = (tiff: Uint8Array): number => {
+  const ifd0 = readIfd0(tiff);
+  if (!ifd0) return 1;
+  const { view, little, entries } = ifd0;
+  const entry = entries.find(current => view.getUint16(current, little) === ORIENTATION_TAG);
+  const orientation = entry === undefined ? 1 : view.getUint16(entry + 8, little);
+  return orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+// EXIF blocks in JPEG APP1 (and sometimes WebP) start with this header before the TIFF data.
+export const stripExifHeader = (data: Uint8Array) =>
+  data[0] === 0x45 && data[1] === 0x78 && data[2] === 0x69 && data[3] === 0x66 && data[4] === 0 && data[5] === 0 ? data.subarray(6) : data;
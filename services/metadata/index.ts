@@ -0,0 +1,19 @@
+import { isJpeg, writeJpegMetadata } from './jpeg';
+import { isPng, writePngMetadata } from './png';
+import { EmbeddableMetadata } from './types';
+
+export type { EmbeddableMetadata, RightsField, RightsInfo } from './types';
+export { readOrientation, readRightsMetadata } from './read';
+
+// Returns a copy of the image with the title, description and keywords embedded
+// (IPTC + XMP for JPEG, iTXt XMP for PNG). The pixel data is never re-encoded.
+export const embedMetadata = async (file: File, metadata: EmbeddableMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isJpeg(bytes)) {
+    return new Blob([writeJpegMetadata(bytes, metadata)], { type: 'image/jpeg' });
+  }
+  if (isPng(bytes)) {
+    return new Blob([writePngMetadata(bytes, metadata)], { type: 'image/png' });
+  }
+  throw new Error('Embedding metadata is only supported for JPEG and PNG images.');
+};
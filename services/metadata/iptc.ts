@@ -0,0 +1,30 @@
+import { readUint16BE } from './binary';
+import { RightsField } from './types';
+
+// IPTC IIM record 2 datasets that carry authorship or rights information.
+const IPTC_DATASETS: Record<number, string> = {
+  80: 'By-line',
+  110: 'Credit',
+  115: 'Source',
+  116: 'Copyright Notice',
+  120: 'Caption/Abstract',
+};
+
+export const readIptcRights = (data: Uint8Array): RightsField[] => {
+  const fields: RightsField[] = [];
+  const decoder = new TextDecoder();
+  let offset = 0;
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    const length = readUint16BE(data, offset + 3);
+    // Extended datasets (high bit set) are only used for very large values we never need.
+    if (length & 0x8000) break;
+    const value = decoder.decode(data.subarray(offset + 5, offset + 5 + length)).trim();
+    if (record === 2 && IPTC_DATASETS[dataset] && value) {
+      fields.push({ source: 'IPTC', name: IPTC_DATASETS[dataset], value });
+    }
+    offset += 5 + length;
+  }
+  return fields;
+};
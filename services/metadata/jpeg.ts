@@ -0,0 +1,131 @@
+import { ascii, concatBytes, readUint16BE, readUint32BE, startsWithAscii, textEncoder, uint16BE, uint32BE, utf8Truncate } from './binary';
+import { EmbeddableMetadata } from './types';
+import { buildXmpPacket } from './xmp';
+
+const APP1 = 0xe1;
+const APP13 = 0xed;
+const SOS = 0xda;
+
+export const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+export const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+export const IPTC_RESOURCE_ID = 0x0404;
+const IPTC_DIGEST_RESOURCE_ID = 0x0425;
+// A segment length field is 16 bits and includes itself.
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+export interface JpegSegment {
+  marker: number;
+  // Segment payload without the marker and length bytes.
+  data: Uint8Array;
+}
+
+export interface ParsedJpeg {
+  segments: JpegSegment[];
+  // Everything from the SOS marker to the end of the file, copied verbatim.
+  scan: Uint8Array;
+}
+
+export const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// Splits a JPEG into its header segments and the untouched compressed image data.
+export const parseJpeg = (bytes: Uint8Array): ParsedJpeg => {
+  if (!isJpeg(bytes)) throw new Error('Not a JPEG file.');
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Corrupt JPEG: expected a marker.');
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === SOS) {
+      return { segments, scan: bytes.subarray(offset) };
+    }
+    const length = readUint16BE(bytes, offset + 2);
+    segments.push({ marker, data: bytes.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  throw new Error('Corrupt JPEG: no image data found.');
+};
+
+const encodeSegment = ({ marker, data }: JpegSegment) => concatBytes([new Uint8Array([0xff, marker]), uint16BE(data.length + 2), data]);
+
+export const isXmpSegment = (segment: JpegSegment) => segment.marker === APP1 && startsWithAscii(segment.data, 0, XMP_HEADER);
+export const isPhotoshopSegment = (segment: JpegSegment) => segment.marker === APP13 && startsWithAscii(segment.data, 0, PHOTOSHOP_HEADER);
+
+export interface PhotoshopResource {
+  id: number;
+  name: Uint8Array;
+  data: Uint8Array;
+}
+
+// Reads the image resource blocks ("8BIM") from an APP13 Photoshop segment.
+export const parsePhotoshopResources = (data: Uint8Array): PhotoshopResource[] => {
+  const resources: PhotoshopResource[] = [];
+  let offset = PHOTOSHOP_HEADER.length;
+  while (offset + 12 <= data.length && startsWithAscii(data, offset, '8BIM')) {
+    const id = readUint16BE(data, offset + 4);
+    const nameLength = data[offset + 6];
+    // The Pascal string (length byte + name) is padded to an even size.
+    const nameSize = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2;
+    const name = data.subarray(offset + 6, offset + 6 + nameSize);
+    const sizeOffset = offset + 6 + nameSize;
+    const size = readUint32BE(data, sizeOffset);
+    resources.push({ id, name, data: data.subarray(sizeOffset + 4, sizeOffset + 4 + size) });
+    offset = sizeOffset + 4 + size + (size % 2);
+  }
+  return resources;
+};
+
+const encodePhotoshopResource = ({ id, name, data }: PhotoshopResource) => concatBytes([
+  ascii('8BIM'),
+  uint16BE(id),
+  name,
+  uint32BE(data.length),
+  data,
+  data.length % 2 ? new Uint8Array([0]) : new Uint8Array(0),
+]);
+
+const iptcDataset = (record: number, dataset: number, value: Uint8Array) => concatBytes([new Uint8Array([0x1c, record, dataset]), uint16BE(value.length), value]);
+
+// Builds IPTC IIM records: UTF-8 charset marker, Object Name (2:05), Keywords (2:25) and Caption/Abstract (2:120).
+export const buildIptc = ({ title, description, keywords }: EmbeddableMetadata): Uint8Array => concatBytes([
+  iptcDataset(1, 90, new Uint8Array([0x1b, 0x25, 0x47])),
+  iptcDataset(2, 0, uint16BE(4)),
+  iptcDataset(2, 5, utf8Truncate(title, 64)),
+  ...keywords.map(keyword => iptcDataset(2, 25, utf8Truncate(keyword, 64))),
+  iptcDataset(2, 120, utf8Truncate(description, 2000)),
+]);
+
+// Writes IPTC and XMP into a JPEG by replacing only the header segments; the compressed pixels are copied as-is.
+export const writeJpegMetadata = (bytes: Uint8Array, metadata: EmbeddableMetadata): Uint8Array => {
+  const { segments, scan } = parseJpeg(bytes);
+
+  const existingXmpSegment = segments.find(isXmpSegment);
+  const existingXmp = existingXmpSegment ? new TextDecoder().decode(existingXmpSegment.data.subarray(XMP_HEADER.length)) : null;
+  const xmpData = concatBytes([ascii(XMP_HEADER), textEncoder.encode(buildXmpPacket(metadata, existingXmp))]);
+  if (xmpData.length > MAX_SEGMENT_PAYLOAD) throw new Error('The metadata is too large to fit in a JPEG XMP segment.');
+
+  // Keep other Photoshop resources (e.g. resolution info) but drop the old IPTC block and its now stale digest.
+  const existingPhotoshop = segments.find(isPhotoshopSegment);
+  const keptResources = existingPhotoshop
+    ? parsePhotoshopResources(existingPhotoshop.data).filter(resource => resource.id !== IPTC_RESOURCE_ID && resource.id !== IPTC_DIGEST_RESOURCE_ID)
+    : [];
+  const iptcResource: PhotoshopResource = { id: IPTC_RESOURCE_ID, name: new Uint8Array([0, 0]), data: buildIptc(metadata) };
+  const photoshopData = concatBytes([ascii(PHOTOSHOP_HEADER), ...[...keptResources, iptcResource].map(encodePhotoshopResource)]);
+  if (photoshopData.length > MAX_SEGMENT_PAYLOAD) throw new Error('The metadata is too large to fit in a JPEG IPTC segment.');
+
+  const kept = segments.filter(segment => !isXmpSegment(segment) && !isPhotoshopSegment(segment));
+  // New segments go right after the leading APP0 (JFIF) / APP1 (Exif) segments, where readers expect them.
+  let insertAt = 0;
+  while (insertAt < kept.length && (kept[insertAt].marker === 0xe0 || kept[insertAt].marker === APP1)) insertAt++;
+  const newSegments: JpegSegment[] = [
+    ...kept.slice(0, insertAt),
+    { marker: APP1, data: xmpData },
+    { marker: APP13, data: photoshopData },
+    ...kept.slice(insertAt),
+  ];
+
+  return concatBytes([new Uint8Array([0xff, 0xd8]), ...newSegments.map(encodeSegment), scan]);
+};
@@ -0,0 +1,66 @@
+import { ascii, concatBytes, crc32, readUint32BE, startsWithAscii, textEncoder, uint32BE } from './binary';
+import { EmbeddableMetadata } from './types';
+import { buildXmpPacket } from './xmp';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+export const XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+export const parsePng = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPng(bytes)) throw new Error('Not a PNG file.');
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const encodeChunk = ({ type, data }: PngChunk) => {
+  const typeAndData = concatBytes([ascii(type), data]);
+  return concatBytes([uint32BE(data.length), typeAndData, uint32BE(crc32(typeAndData))]);
+};
+
+export const isXmpChunk = (chunk: PngChunk) => chunk.type === 'iTXt' && startsWithAscii(chunk.data, 0, `${XMP_KEYWORD}\0`);
+
+// Returns the text of an uncompressed iTXt chunk (keyword, flags, language and translated keyword are skipped).
+export const readITxtText = (data: Uint8Array): string | null => {
+  let offset = data.indexOf(0);
+  if (offset === -1) return null;
+  const compressed = data[offset + 1] === 1;
+  if (compressed) return null;
+  offset += 3;
+  const languageEnd = data.indexOf(0, offset);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd === -1 || translatedEnd === -1) return null;
+  return new TextDecoder().decode(data.subarray(translatedEnd + 1));
+};
+
+// Writes XMP into a PNG as an uncompressed iTXt chunk before the image data; all other chunks are copied as-is.
+export const writePngMetadata = (bytes: Uint8Array, metadata: EmbeddableMetadata): Uint8Array => {
+  const chunks = parsePng(bytes);
+  const existing = chunks.find(isXmpChunk);
+  const packet = buildXmpPacket(metadata, existing ? readITxtText(existing.data) : null);
+
+  // keyword \0, compression flag 0, compression method 0, empty language tag \0, empty translated keyword \0, text
+  const xmpChunk: PngChunk = {
+    type: 'iTXt',
+    data: concatBytes([ascii(XMP_KEYWORD), new Uint8Array([0, 0, 0, 0, 0]), textEncoder.encode(packet)]),
+  };
+
+  const kept = chunks.filter(chunk => !isXmpChunk(chunk));
+  const ihdrIndex = kept.findIndex(chunk => chunk.type === 'IHDR');
+  const newChunks = [...kept.slice(0, ihdrIndex + 1), xmpChunk, ...kept.slice(ihdrIndex + 1)];
+
+  return concatBytes([PNG_SIGNATURE, ...newChunks.map(encodeChunk)]);
+};
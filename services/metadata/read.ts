@@ -0,0 +1,178 @@
+import { readTiffOrientation, readTiffRights, stripExifHeader } from './exif';
+import { readIptcRights } from './iptc';
+import { IPTC_RESOURCE_ID, isJpeg, isPhotoshopSegment, isXmpSegment, parseJpeg, parsePhotoshopResources, XMP_HEADER } from './jpeg';
+import { isPng, parsePng, XMP_KEYWORD } from './png';
+import { RightsField, RightsInfo } from './types';
+import { isWebp, parseWebp } from './webp';
+import { readXmpRights } from './xmp';
+
+// PNG text keywords (tEXt/zTXt/iTXt) that carry authorship or rights information.
+const PNG_TEXT_KEYWORDS = ['Copyright', 'Author', 'Artist', 'Source', 'Disclaimer', 'Description'];
+
+// Fields whose mere presence is an explicit copyright statement or an agency licensing ID.
+const OWNERSHIP_FIELDS = new Set([
+  'EXIF:Copyright',
+  'IPTC:Copyright Notice',
+  'XMP:dc:rights',
+  'XMP:plus:Licensor',
+  'XMP:GettyImagesGIFT:AssetID',
+  'PNG text:Copyright',
+]);
+
+// Fields that only name an author or credit line. Cameras write these on the team's own photos too,
+// so they are context for the copyright check rather than a claim.
+const ATTRIBUTION_FIELDS = new Set([
+  'EXIF:Artist',
+  'IPTC:By-line',
+  'IPTC:Credit',
+  'XMP:dc:creator',
+  'XMP:photoshop:Credit',
+  'PNG text:Author',
+  'PNG text:Artist',
+]);
+
+// Free-text fields where an agency name is just as likely part of a caption, so agency patterns are not applied.
+const DESCRIPTION_FIELDS = new Set([
+  'EXIF:ImageDescription',
+  'IPTC:Caption/Abstract',
+  'XMP:dc:description',
+  'PNG text:Description',
+]);
+
+// Stock agencies whose name or ID in a rights field marks the image as licensed content.
+const AGENCY_PATTERNS: [string, RegExp][] = [
+  ['Getty Images', /getty\s*images|gettyimages/i],
+  ['iStock', /\bistock/i],
+  ['Shutterstock', /shutterstock/i],
+  ['Adobe Stock', /adobe\s*stock|stock\.adobe\.com/i],
+  ['Alamy', /\balamy\b/i],
+  ['Dreamstime', /dreamstime/i],
+  ['Depositphotos', /depositphotos/i],
+  ['123RF', /\b123rf\b/i],
+];
+
+const decoder = new TextDecoder();
+const latin1 = new TextDecoder('latin1');
+
+// Inflates zlib data (PNG zTXt and compressed iTXt) with the platform's DecompressionStream.
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readJpegFields = (bytes: Uint8Array): RightsField[] => {
+  const { segments } = parseJpeg(bytes);
+  const fields: RightsField[] = [];
+  segments.forEach(segment => {
+    if (segment.marker === 0xe1 && !isXmpSegment(segment)) {
+      fields.push(...readTiffRights(stripExifHeader(segment.data)));
+    } else if (isXmpSegment(segment)) {
+      fields.push(...readXmpRights(decoder.decode(segment.data.subarray(XMP_HEADER.length))));
+    } else if (isPhotoshopSegment(segment)) {
+      parsePhotoshopResources(segment.data)
+        .filter(resource => resource.id === IPTC_RESOURCE_ID)
+        .forEach(resource => fields.push(...readIptcRights(resource.data)));
+    }
+  });
+  return fields;
+};
+
+// Splits PNG text chunks into keyword and (possibly inflated) text.
+const readPngText = async (type: string, data: Uint8Array): Promise<{ keyword: string; text: string } | null> => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd === -1) return null;
+  const keyword = latin1.decode(data.subarray(0, keywordEnd));
+
+  if (type === 'tEXt') {
+    return { keyword, text: latin1.decode(data.subarray(keywordEnd + 1)) };
+  }
+  if (type === 'zTXt') {
+    return { keyword, text: latin1.decode(await inflate(data.subarray(keywordEnd + 2))) };
+  }
+  // iTXt: keyword \0 compressionFlag compressionMethod language \0 translatedKeyword \0 text
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd === -1 || translatedEnd === -1) return null;
+  const textBytes = data.subarray(translatedEnd + 1);
+  return { keyword, text: decoder.decode(compressed ? await inflate(textBytes) : textBytes) };
+};
+
+const readPngFields = async (bytes: Uint8Array): Promise<RightsField[]> => {
+  const fields: RightsField[] = [];
+  for (const chunk of parsePng(bytes)) {
+    if (chunk.type === 'eXIf') {
+      fields.push(...readTiffRights(chunk.data));
+      continue;
+    }
+    if (chunk.type !== 'tEXt' && chunk.type !== 'zTXt' && chunk.type !== 'iTXt') continue;
+
+    const entry = await readPngText(chunk.type, chunk.data).catch(() => null);
+    if (!entry) continue;
+    if (entry.keyword === XMP_KEYWORD) {
+      fields.push(...readXmpRights(entry.text));
+    } else if (PNG_TEXT_KEYWORDS.includes(entry.keyword) && entry.text.trim()) {
+      fields.push({ source: 'PNG text', name: entry.keyword, value: entry.text.trim() });
+    }
+  }
+  return fields;
+};
+
+const readWebpFields = (bytes: Uint8Array): RightsField[] => {
+  const fields: RightsField[] = [];
+  parseWebp(bytes).forEach(chunk => {
+    if (chunk.type === 'EXIF') fields.push(...readTiffRights(stripExifHeader(chunk.data)));
+    if (chunk.type === 'XMP ') fields.push(...readXmpRights(decoder.decode(chunk.data)));
+  });
+  return fields;
+};
+
+// Works out which of the fields amount to an explicit claim of ownership.
+export const findOwnershipClaims = (fields: RightsField[]): string[] => {
+  const claims: string[] = [];
+  fields.forEach(({ source, name, value }) => {
+    const quoted = value.length > 80 ? `${value.slice(0, 77)}...` : value;
+    if (name === 'xmpRights:Marked') {
+      if (value.toLowerCase() === 'true') claims.push(`XMP marks the image as rights-managed (xmpRights:Marked=True).`);
+      return;
+    }
+    if (OWNERSHIP_FIELDS.has(`${source}:${name}`)) {
+      claims.push(`${source} ${name}: "${quoted}"`);
+    }
+    if (DESCRIPTION_FIELDS.has(`${source}:${name}`)) return;
+    AGENCY_PATTERNS.forEach(([agency, pattern]) => {
+      if (pattern.test(value)) claims.push(`${agency} reference in ${source} ${name}: "${quoted}"`);
+    });
+  });
+  return Array.from(new Set(claims));
+};
+
+// Reads the EXIF, IPTC and XMP rights fields of a JPEG, PNG or WebP image. Other formats yield no fields.
+export const readRightsMetadata = async (data: ArrayBuffer | Uint8Array): Promise<RightsInfo> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let fields: RightsField[] = [];
+  if (isJpeg(bytes)) fields = readJpegFields(bytes);
+  else if (isPng(bytes)) fields = await readPngFields(bytes);
+  else if (isWebp(bytes)) fields = readWebpFields(bytes);
+
+  const attributions = fields.filter(({ source, name }) => ATTRIBUTION_FIELDS.has(`${source}:${name}`)).map(({ source, name, value }) => `${source} ${name}: "${value}"`);
+  return { fields, claims: findOwnershipClaims(fields), attributions: Array.from(new Set(attributions)) };
+};
+
+// Reads the EXIF orientation of a JPEG or WebP image. PNG and other formats are treated as upright.
+export const readOrientation = (data: ArrayBuffer | Uint8Array): number => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  try {
+    if (isJpeg(bytes)) {
+      const exif = parseJpeg(bytes).segments.find(segment => segment.marker === 0xe1 && !isXmpSegment(segment));
+      return exif ? readTiffOrientation(stripExifHeader(exif.data)) : 1;
+    }
+    if (isWebp(bytes)) {
+      const exif = parseWebp(bytes).find(chunk => chunk.type === 'EXIF');
+      return exif ? readTiffOrientation(stripExifHeader(exif.data)) : 1;
+    }
+  } catch {
+    // A corrupt header is left to the image decoder to report.
+  }
+  return 1;
+};
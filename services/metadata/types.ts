@@ -0,0 +1,22 @@
+export interface EmbeddableMetadata {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+export type RightsSource = 'EXIF' | 'IPTC' | 'XMP' | 'PNG text';
+
+// A single rights-related value found in the file, e.g. EXIF Copyright or XMP dc:creator.
+export interface RightsField {
+  source: RightsSource;
+  name: string;
+  value: string;
+}
+
+export interface RightsInfo {
+  fields: RightsField[];
+  // Human readable reasons why the file claims to be owned by someone; empty if there is no claim.
+  claims: string[];
+  // Author and credit lines, e.g. EXIF Artist. Context for the copyright check, not a claim by themselves.
+  attributions: string[];
+}
@@ -0,0 +1,23 @@
+import { startsWithAscii } from './binary';
+
+export interface WebpChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const isWebp = (bytes: Uint8Array) => startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP');
+
+export const parseWebp = (bytes: Uint8Array): WebpChunk[] => {
+  if (!isWebp(bytes)) throw new Error('Not a WebP file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WebpChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size.
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
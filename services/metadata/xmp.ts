@@ -0,0 +1,145 @@
+import { EmbeddableMetadata, RightsField } from './types';
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const PHOTOSHOP_NS = 'http://ns.adobe.com/photoshop/1.0/';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+const PACKET_HEADER = '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>';
+const PACKET_TRAILER = '<?xpacket end="w"?>';
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const buildFreshPacket = ({ title, description, keywords }: EmbeddableMetadata) => `${PACKET_HEADER}
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="${RDF_NS}">
+  <rdf:Description rdf:about=""
+    xmlns:dc="${DC_NS}"
+    xmlns:photoshop="${PHOTOSHOP_NS}">
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>
+   <dc:subject><rdf:Bag>${keywords.map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>
+   <photoshop:Headline>${escapeXml(title)}</photoshop:Headline>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+${PACKET_TRAILER}`;
+
+// Replaces dc:title, dc:description, dc:subject and photoshop:Headline in an existing packet,
+// keeping everything else (rights, creator, camera data...) untouched.
+const mergeIntoPacket = (existing: string, { title, description, keywords }: EmbeddableMetadata): string | null => {
+  if (typeof DOMParser === 'undefined') return null;
+  const start = existing.indexOf('<x:xmpmeta');
+  const end = existing.indexOf('</x:xmpmeta>');
+  if (start === -1 || end === -1) return null;
+
+  const doc = new DOMParser().parseFromString(existing.slice(start, end + '</x:xmpmeta>'.length), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  const rdf = doc.getElementsByTagNameNS(RDF_NS, 'RDF')[0];
+  if (!rdf) return null;
+
+  const replaced = [[DC_NS, 'title'], [DC_NS, 'description'], [DC_NS, 'subject'], [PHOTOSHOP_NS, 'Headline']];
+  Array.from(rdf.getElementsByTagNameNS(RDF_NS, 'Description')).forEach(node => {
+    replaced.forEach(([ns, name]) => {
+      Array.from(node.getElementsByTagNameNS(ns, name)).forEach(child => child.parentNode?.removeChild(child));
+      node.removeAttributeNS(ns, name);
+    });
+  });
+
+  const descriptionNode = doc.createElementNS(RDF_NS, 'rdf:Description');
+  descriptionNode.setAttributeNS(RDF_NS, 'rdf:about', '');
+  const alt = (name: string, value: string) => {
+    const property = doc.createElementNS(DC_NS, `dc:${name}`);
+    const altNode = doc.createElementNS(RDF_NS, 'rdf:Alt');
+    const li = doc.createElementNS(RDF_NS, 'rdf:li');
+    li.setAttributeNS(XML_NS, 'xml:lang', 'x-default');
+    li.textContent = value;
+    altNode.appendChild(li);
+    property.appendChild(altNode);
+    return property;
+  };
+  descriptionNode.appendChild(alt('title', title));
+  descriptionNode.appendChild(alt('description', description));
+  const subject = doc.createElementNS(DC_NS, 'dc:subject');
+  const bag = doc.createElementNS(RDF_NS, 'rdf:Bag');
+  keywords.forEach(keyword => {
+    const li = doc.createElementNS(RDF_NS, 'rdf:li');
+    li.textContent = keyword;
+    bag.appendChild(li);
+  });
+  subject.appendChild(bag);
+  descriptionNode.appendChild(subject);
+  const headline = doc.createElementNS(PHOTOSHOP_NS, 'photoshop:Headline');
+  headline.textContent = title;
+  descriptionNode.appendChild(headline);
+  rdf.appendChild(descriptionNode);
+
+  return `${PACKET_HEADER}\n${new XMLSerializer().serializeToString(doc)}\n${PACKET_TRAILER}`;
+};
+
+// Builds an XMP packet with the given metadata, merged into the file's existing packet when there is one.
+export const buildXmpPacket = (metadata: EmbeddableMetadata, existing?: string | null): string => {
+  if (existing) {
+    try {
+      const merged = mergeIntoPacket(existing, metadata);
+      if (merged) return merged;
+    } catch {
+      // Fall back to a fresh packet if the existing one cannot be parsed.
+    }
+  }
+  return buildFreshPacket(metadata);
+};
+
+// XMP properties that carry authorship or rights information.
+const XMP_RIGHTS_PROPERTIES = [
+  'dc:rights',
+  'dc:creator',
+  'dc:description',
+  'photoshop:Credit',
+  'photoshop:Source',
+  'photoshop:AuthorsPosition',
+  'xmpRights:Marked',
+  'xmpRights:WebStatement',
+  'xmpRights:UsageTerms',
+  'plus:Licensor',
+  'GettyImagesGIFT:AssetID',
+];
+
+const decodeXmlEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_match, code) => String.fromCodePoint(Number(code)))
+  .replace(/&amp;/g, '&');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reads rights related properties from an XMP packet. A lightweight regex scan is enough here
+// and, unlike DOMParser, also works outside the browser.
+export const readXmpRights = (packet: string): RightsField[] => {
+  const fields: RightsField[] = [];
+  const add = (name: string, raw: string) => {
+    const value = decodeXmlEntities(raw.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+    if (value) fields.push({ source: 'XMP', name, value });
+  };
+
+  XMP_RIGHTS_PROPERTIES.forEach(name => {
+    const property = escapeRegExp(name);
+    // Element form, with the value either directly inside or in rdf:li items of an Alt/Seq/Bag.
+    const elements = packet.matchAll(new RegExp(`<${property}(?:\\s[^>]*)?>([\\s\\S]*?)</${property}>`, 'g'));
+    for (const [, content] of elements) {
+      const items = Array.from(content.matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g));
+      if (items.length > 0) items.forEach(([, item]) => add(name, item));
+      else add(name, content);
+    }
+    // Attribute form: <rdf:Description photoshop:Credit="...">
+    const attributes = packet.matchAll(new RegExp(`\\s${property}="([^"]*)"`, 'g'));
+    for (const [, value] of attributes) add(name, value);
+  });
+  return fields;
+};
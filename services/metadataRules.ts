@@ -0,0 +1,104 @@
+import { MetadataField, ValidationIssue } from '../types';
+
+// 'underscore' tags look like 'misty_peak'; 'phrase' keywords are plain words such as 'misty peak'.
+export type TagStyle = 'underscore' | 'phrase';
+
+// The limits one target platform puts on generated metadata.
+export interface MetadataRules {
+  titleMaxLength: number;
+  descriptionMaxLength: number;
+  minTags: number;
+  maxTags: number;
+  tagMaxLength: number;
+  tagStyle: TagStyle;
+  forbiddenWords: string[];
+}
+
+export const METADATA_FIELD_LABELS: Record<MetadataField, string> = {
+  title: 'Title',
+  imageDescription: 'Description',
+  tags: 'Tags',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Returns every forbidden word or phrase that appears as a whole word in the text.
+// Underscores count as spaces so that tags like 'pop_art' are caught too.
+export const findForbiddenWords = (text: string, forbiddenWords: string[]): string[] => {
+  const normalized = text.toLowerCase().replace(/_/g, ' ');
+  return forbiddenWords.filter(word => new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}($|[^a-z0-9])`).test(normalized));
+};
+
+const TAG_FORMATS: Record<TagStyle, RegExp> = {
+  underscore: /^[A-Za-z0-9]+(_[A-Za-z0-9]+)*$/,
+  phrase: /^[A-Za-z0-9]+( [A-Za-z0-9]+)*$/,
+};
+
+// A single tag passes the format, length and forbidden word rules.
+export const isTagValid = (tag: string, rules: MetadataRules) =>
+  TAG_FORMATS[rules.tagStyle].test(tag) && tag.length <= rules.tagMaxLength && findForbiddenWords(tag, rules.forbiddenWords).length === 0;
+
+// Turns free text typed by a user into the platform's tag form, e.g. 'Misty Peak' -> 'misty_peak'.
+export const normalizeTag = (text: string, rules: MetadataRules) => text.trim().toLowerCase().replace(/[\s_-]+/g, rules.tagStyle === 'underscore' ? '_' : ' ');
+
+// Describes the required tag count, e.g. "exactly 8" or "between 25 and 50".
+export const describeTagCount = ({ minTags, maxTags }: MetadataRules) => minTags === maxTags ? `exactly ${minTags}` : `between ${minTags} and ${maxTags}`;
+
+export interface MetadataFields {
+  title: string | null;
+  imageDescription: string | null;
+  tags: string[];
+}
+
+// Deterministically checks the generated metadata against every rule the prompt asks for.
+export const validateMetadata = ({ title, imageDescription, tags }: MetadataFields, rules: MetadataRules): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const { titleMaxLength, descriptionMaxLength, minTags, maxTags, tagMaxLength, tagStyle, forbiddenWords } = rules;
+
+  if (!title?.trim()) {
+    issues.push({ field: 'title', message: 'Title is missing.' });
+  } else {
+    if (title.length > titleMaxLength) {
+      issues.push({ field: 'title', message: `Title is ${title.length} characters; the maximum is ${titleMaxLength}.` });
+    }
+    const forbidden = findForbiddenWords(title, forbiddenWords);
+    if (forbidden.length > 0) {
+      issues.push({ field: 'title', message: `Title contains forbidden words: ${forbidden.join(', ')}.` });
+    }
+  }
+
+  if (!imageDescription?.trim()) {
+    issues.push({ field: 'imageDescription', message: 'Description is missing.' });
+  } else {
+    if (imageDescription.length > descriptionMaxLength) {
+      issues.push({ field: 'imageDescription', message: `Description is ${imageDescription.length} characters; the maximum is ${descriptionMaxLength}.` });
+    }
+    const forbidden = findForbiddenWords(imageDescription, forbiddenWords);
+    if (forbidden.length > 0) {
+      issues.push({ field: 'imageDescription', message: `Description contains forbidden words: ${forbidden.join(', ')}.` });
+    }
+  }
+
+  if (tags.length < minTags || tags.length > maxTags) {
+    issues.push({ field: 'tags', message: `There are ${tags.length} tags; ${describeTagCount(rules)} are required.` });
+  }
+  const badFormat = tags.filter(tag => !TAG_FORMATS[tagStyle].test(tag));
+  if (badFormat.length > 0) {
+    const expected = tagStyle === 'underscore' ? 'use underscores instead of spaces or punctuation' : 'be plain words separated by single spaces';
+    issues.push({ field: 'tags', message: `Tags must ${expected}: ${badFormat.join(', ')}.` });
+  }
+  const tooLong = tags.filter(tag => tag.length > tagMaxLength);
+  if (tooLong.length > 0) {
+    issues.push({ field: 'tags', message: `Tags must be less than ${tagMaxLength + 1} characters: ${tooLong.join(', ')}.` });
+  }
+  const forbiddenTags = tags.filter(tag => findForbiddenWords(tag, forbiddenWords).length > 0);
+  if (forbiddenTags.length > 0) {
+    issues.push({ field: 'tags', message: `Tags contain forbidden words: ${forbiddenTags.join(', ')}.` });
+  }
+
+  return issues;
+};
+
+export const getFailedFields = (issues: ValidationIssue[]): MetadataField[] => {
+  return Array.from(new Set(issues.map(issue => issue.field)));
+};
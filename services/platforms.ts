@@ -0,0 +1,74 @@
+import { AgencyId } from './agencies';
+import { MetadataRules } from './metadataRules';
+
+export type PlatformId = AgencyId | 'zedge';
+
+export interface PlatformProfile {
+  id: PlatformId;
+  label: string;
+  rules: MetadataRules;
+  // Platform-specific writing instructions added to the generation prompt.
+  guidance: string;
+}
+
+const PLATFORMS_STORAGE_KEY = 'metadataPlatforms';
+
+export const DEFAULT_PLATFORM_ID: PlatformId = 'zedge';
+
+// Zedge category names; using them in metadata gets a submission rejected.
+const ZEDGE_FORBIDDEN_WORDS = ["wallpaper", "holiday", "trending", "funny", "technology", "entertainment", "music", "nature", "drawings", "sports", "brands", "cars & vehicles", "other", "animals", "patterns", "bollywood", "anime", "games", "designs", "love", "news & politics", "people", "sayings", "spiritual", "space", "comics", "alternative", "children", "classical", "country", "dance", "electronica", "comedy", "hip hop", "jazz", "latin", "pop", "rnb soul", "reggae", "rock", "message tones", "sound effects", "world", "blues", "religious", "contact ringtones"];
+
+// Generic terms the stock agencies treat as keyword spam.
+const STOCK_SPAM_WORDS = ['stock', 'royalty free', 'photo', 'image', 'picture', 'hd', '4k', 'wallpaper', 'best', 'trending'];
+
+// Limits stay within the agency upload limits in agencies.ts, so generated metadata always exports cleanly.
+export const PLATFORM_PROFILES: Record<PlatformId, PlatformProfile> = {
+  zedge: {
+    id: 'zedge',
+    label: 'Zedge',
+    rules: { titleMaxLength: 60, descriptionMaxLength: 170, minTags: 8, maxTags: 8, tagMaxLength: 24, tagStyle: 'underscore', forbiddenWords: ZEDGE_FORBIDDEN_WORDS },
+    guidance: `The title must be creative and search-engine-optimized, describe the figure in the image and include a specific figure's name or the animal's type if the figure is an animal. Do not include any words that describe the image's style, such as 'cinematic', 'photorealistic', 'painting', '3D', 'digital art', etc.
+    The description is creative and fantasized, focusing on the figure and the activity taking place.
+    At least two tags describe the background (e.g., 'darker_tones', 'vibrant_colors'). If there is a figure in the image, at least two tags describe the type of figure (e.g., 'mythical_creature', 'ancient_guardian').`,
+  },
+  shutterstock: {
+    id: 'shutterstock',
+    label: 'Shutterstock',
+    rules: { titleMaxLength: 70, descriptionMaxLength: 200, minTags: 25, maxTags: 50, tagMaxLength: 50, tagStyle: 'phrase', forbiddenWords: [...STOCK_SPAM_WORDS, 'shutterstock'] },
+    guidance: `Shutterstock shows only the description to buyers, so it must be a complete, factual sentence that says who or what is shown, where, and what is happening.
+    Keywords are single words or short phrases in order of importance, with no repeated spelling variants.`,
+  },
+  istock: {
+    id: 'istock',
+    label: 'iStock',
+    rules: { titleMaxLength: 100, descriptionMaxLength: 250, minTags: 10, maxTags: 50, tagMaxLength: 50, tagStyle: 'phrase', forbiddenWords: [...STOCK_SPAM_WORDS, 'istock', 'getty'] },
+    guidance: `The title is a short, literal caption. The description is factual and adds context the title leaves out.
+    Keywords are matched against a controlled vocabulary, so use common English words for concepts, subjects and settings.`,
+  },
+  adobeStock: {
+    id: 'adobeStock',
+    label: 'Adobe Stock',
+    rules: { titleMaxLength: 70, descriptionMaxLength: 200, minTags: 15, maxTags: 49, tagMaxLength: 50, tagStyle: 'phrase', forbiddenWords: [...STOCK_SPAM_WORDS, 'adobe'] },
+    guidance: `Adobe Stock searches the title first, so it is a plain, descriptive phrase rather than a creative headline.
+    Keywords are in order of relevance; the first ten matter most and must describe the main subject.`,
+  },
+};
+
+export const PLATFORM_IDS = Object.keys(PLATFORM_PROFILES) as PlatformId[];
+
+export const loadPlatformIds = (): PlatformId[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PLATFORMS_STORAGE_KEY) || 'null');
+    if (Array.isArray(stored)) {
+      const ids = PLATFORM_IDS.filter(id => stored.includes(id));
+      if (ids.length > 0) return ids;
+    }
+  } catch {
+    // Fall through to the default if storage is unavailable or corrupted.
+  }
+  return [DEFAULT_PLATFORM_ID];
+};
+
+export const savePlatformIds = (ids: PlatformId[]) => {
+  localStorage.setItem(PLATFORMS_STORAGE_KEY, JSON.stringify(ids));
+};
@@ -0,0 +1,129 @@
+import { PolicyDefinition } from '../types';
+
+const POLICIES_STORAGE_KEY = 'policyDefinitions';
+const REVIEW_THRESHOLD_STORAGE_KEY = 'reviewThreshold';
+
+// Verdicts with a lower confidence than this are marked 'review' instead of 'pass' or 'found'.
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+// Colors handed out to policies that do not pick their own, in order.
+export const POLICY_COLORS = ['#ef4444', '#f59e0b', '#ec4899', '#8b5cf6', '#0ea5e9', '#14b8a6', '#84cc16', '#6366f1'];
+
+// Embedded ownership claims found in file metadata are applied to this policy.
+export const COPYRIGHT_POLICY_ID = 'copyright';
+
+const WOMEN_OUTFIT_RULE = 'Stylized, form-fitting outfits that accentuate the breast/bust area should be considered a violation.';
+
+// The sentence the default Women prompt used to end with. It named example files that were never sent;
+// examples now come from the reference library, so stored prompts get the current sentence instead.
+const LEGACY_WOMEN_OUTFIT_RULE = 'The images you were provided with (2cskE_vv-editing.jpg and 9f9bTpAe-editing.jpg) show examples of stylized, form-fitting outfits that accentuate the breast/bust area and should be considered a violation.';
+
+export const DEFAULT_POLICIES: PolicyDefinition[] = [
+  {
+    id: COPYRIGHT_POLICY_ID,
+    label: 'Copyright',
+    icon: 'copyright',
+    enabled: true,
+    builtIn: true,
+    color: POLICY_COLORS[0],
+    prompt: `Analyze the uploaded image for any visible watermarks, copyright symbols, or logos. Only clear signs of copyright infringement count as a violation.`,
+  },
+  {
+    id: 'zedge',
+    label: 'Zedge',
+    icon: 'shield',
+    enabled: true,
+    builtIn: true,
+    color: POLICY_COLORS[1],
+    prompt: `Check for specific violations as per Zedge's Content Policy, including but not limited to:
+1. Explicit branded content or commercial logos.
+2. Sexually explicit, obscene, or pornographic content (e.g., nudity, visible breasts).
+3. Graphic or gratuitous violence, hate speech, or harassment.
+4. Depictions of illegal acts or content promoting them.
+5. Sensitive content, such as images of children.`,
+  },
+  {
+    id: 'women',
+    label: 'Women',
+    icon: 'woman',
+    enabled: true,
+    builtIn: true,
+    color: POLICY_COLORS[2],
+    prompt: `If a woman is in the image, check for the following violations:
+1. Is a bra visible?
+2. Are breasts or busts visible in a way that violates a nudity or sexuality policy? ${WOMEN_OUTFIT_RULE}`,
+  },
+  {
+    id: 'kids',
+    label: 'Kids',
+    icon: 'kids',
+    enabled: true,
+    builtIn: true,
+    color: POLICY_COLORS[3],
+    prompt: `Check for the following rules:
+1. The image should not have any human kids or children's.`,
+  },
+];
+
+export const loadPolicies = (): PolicyDefinition[] => {
+  try {
+    const stored = localStorage.getItem(POLICIES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed.map((policy: PolicyDefinition) => ({ ...policy, prompt: policy.prompt.replace(LEGACY_WOMEN_OUTFIT_RULE, WOMEN_OUTFIT_RULE) }));
+      }
+    }
+  } catch {
+    // Fall through to the defaults if storage is unavailable or corrupted.
+  }
+  return DEFAULT_POLICIES;
+};
+
+export const savePolicies = (policies: PolicyDefinition[]) => {
+  localStorage.setItem(POLICIES_STORAGE_KEY, JSON.stringify(policies));
+};
+
+export const loadReviewThreshold = (): number => {
+  try {
+    const stored = localStorage.getItem(REVIEW_THRESHOLD_STORAGE_KEY);
+    const threshold = stored === null ? NaN : Number(stored);
+    if (threshold >= 0 && threshold <= 1) return threshold;
+  } catch {
+    // Fall through to the default if storage is unavailable.
+  }
+  return DEFAULT_REVIEW_THRESHOLD;
+};
+
+export const saveReviewThreshold = (threshold: number) => {
+  localStorage.setItem(REVIEW_THRESHOLD_STORAGE_KEY, String(threshold));
+};
+
+// Turns a free-form label into a camelCase identifier that is unique among the given policies.
+export const createPolicyId = (label: string, existing: PolicyDefinition[]): string => {
+  const words = label.toLowerCase().match(/[a-z0-9]+/g) || ['policy'];
+  let base = words.map((word, i) => i === 0 ? word : word[0].toUpperCase() + word.slice(1)).join('');
+  if (/^[0-9]/.test(base)) base = `policy${base}`;
+
+  let id = base;
+  let suffix = 2;
+  while (existing.some(policy => policy.id === id)) {
+    id = `${base}${suffix++}`;
+  }
+  return id;
+};
+
+// Policies saved before colors existed get a palette color derived from their id, so it stays the same between runs.
+export const getPolicyColor = (policy: PolicyDefinition): string => {
+  if (policy.color) return policy.color;
+  const sum = Array.from(policy.id).reduce((total, char) => total + char.charCodeAt(0), 0);
+  return POLICY_COLORS[sum % POLICY_COLORS.length];
+};
+
+// Returns a human readable problem with the policy list, or null if it can be saved.
+export const validatePolicies = (policies: PolicyDefinition[]): string | null => {
+  if (!policies.some(policy => policy.enabled)) return "At least one policy must be enabled.";
+  const incomplete = policies.find(policy => !policy.label.trim() || !policy.prompt.trim());
+  if (incomplete) return `Policy "${incomplete.label || incomplete.id}" needs both a label and prompt text.`;
+  return null;
+};
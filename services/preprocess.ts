@@ -0,0 +1,128 @@
+import { readOrientation } from './metadata';
+
+const MAX_IMAGE_EDGE_STORAGE_KEY = 'maxImageEdge';
+
+export const DEFAULT_MAX_IMAGE_EDGE = 2048;
+export const MIN_MAX_IMAGE_EDGE = 512;
+export const MAX_MAX_IMAGE_EDGE = 8192;
+
+// Formats the model accepts as input. Anything else the browser can decode is converted to PNG.
+const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+// The server accepts 15 MB of JSON and base64 adds a third, so all images of a request together must stay below 11 MB.
+// Each of the up to 9 reference images sent along is kept below MAX_REFERENCE_BYTES; the image under review gets the rest.
+export const MAX_REFERENCE_BYTES = 400 * 1024;
+const MAX_UPLOAD_BYTES = 11 * 1024 * 1024 - 9 * MAX_REFERENCE_BYTES;
+
+// JPEG qualities tried in turn when a re-encoded image is still too large.
+const JPEG_QUALITIES = [0.92, 0.85, 0.75, 0.6];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export interface PreparedImage {
+  // The file as the user picked it; history, rights checks and exports use it.
+  original: File;
+  // The file sent to the model: upright, within the size limits and in a supported format.
+  // The same object as original when nothing had to change.
+  file: File;
+  // One human-readable line per change, empty when the original is sent as is.
+  changes: string[];
+  // The maximum edge the image was prepared for.
+  maxEdge: number;
+}
+
+export const loadMaxImageEdge = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(MAX_IMAGE_EDGE_STORAGE_KEY));
+    if (stored >= MIN_MAX_IMAGE_EDGE && stored <= MAX_MAX_IMAGE_EDGE) return stored;
+  } catch {
+    // Fall through to the default if storage is unavailable.
+  }
+  return DEFAULT_MAX_IMAGE_EDGE;
+};
+
+export const saveMaxImageEdge = (edge: number) => {
+  localStorage.setItem(MAX_IMAGE_EDGE_STORAGE_KEY, String(edge));
+};
+
+export const clampMaxImageEdge = (edge: number) => Math.min(Math.max(Math.round(edge) || DEFAULT_MAX_IMAGE_EDGE, MIN_MAX_IMAGE_EDGE), MAX_MAX_IMAGE_EDGE);
+
+export const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Helper function to draw a bitmap at the given size and encode it, on an OffscreenCanvas where available.
+const encodeBitmap = async (bitmap: ImageBitmap, width: number, height: number, type: string, quality?: number): Promise<Blob> => {
+  const canvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error('Canvas is not available in this browser.');
+  if (type === 'image/jpeg') {
+    // JPEG has no transparency; flatten onto white instead of the default black.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  if (canvas instanceof OffscreenCanvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image could not be encoded.')), type, quality));
+};
+
+// Encodes the bitmap in the preferred format, falling back to ever lower JPEG qualities until it fits maxBytes.
+const encodeWithinLimit = async (bitmap: ImageBitmap, width: number, height: number, preferredType: string, maxBytes: number): Promise<Blob> => {
+  let blob = await encodeBitmap(bitmap, width, height, preferredType, preferredType === 'image/png' ? undefined : JPEG_QUALITIES[0]);
+  for (const quality of JPEG_QUALITIES) {
+    if (blob.size <= maxBytes) break;
+    blob = await encodeBitmap(bitmap, width, height, 'image/jpeg', quality);
+  }
+  if (blob.size > maxBytes) throw new Error(`The image is still ${formatBytes(blob.size)} after compression; try a smaller maximum edge.`);
+  return blob;
+};
+
+// Checks an image before it is queued and, where needed, downscales it to maxEdge, turns it upright according
+// to its EXIF orientation, converts it to a format the model accepts and keeps it below maxBytes.
+export const prepareImage = async (file: File, maxEdge: number, maxBytes: number = MAX_UPLOAD_BYTES): Promise<PreparedImage> => {
+  const orientation = readOrientation(await file.arrayBuffer());
+  const isSupported = SUPPORTED_MIME_TYPES.includes(file.type);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    // Most browsers cannot decode HEIC, but the model can, so a small enough file is sent unchanged.
+    if (isSupported && file.size <= maxBytes) return { original: file, file, changes: [], maxEdge };
+    throw new Error(`${file.name} is not an image this browser can read${isSupported ? ` and is too large to send (${formatBytes(file.size)})` : ''}.`);
+  }
+
+  try {
+    // The bitmap is already upright, so its size is the displayed size.
+    const { width, height } = bitmap;
+    if (width === 0 || height === 0) throw new Error(`${file.name} has no pixels.`);
+
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    const isRotated = orientation > 1;
+    if (scale === 1 && isSupported && !isRotated && file.size <= maxBytes) {
+      return { original: file, file, changes: [], maxEdge };
+    }
+
+    const targetWidth = Math.max(1, Math.round(width * scale));
+    const targetHeight = Math.max(1, Math.round(height * scale));
+    const preferredType = file.type === 'image/jpeg' || file.type === 'image/webp' ? file.type : 'image/png';
+    const blob = await encodeWithinLimit(bitmap, targetWidth, targetHeight, preferredType, maxBytes);
+
+    const changes: string[] = [];
+    if (isRotated) changes.push(`Turned upright using the EXIF orientation (${orientation}).`);
+    if (scale < 1) changes.push(`Downscaled from ${width}×${height} to ${targetWidth}×${targetHeight} px.`);
+    if (blob.type !== file.type) changes.push(`Converted from ${file.type || 'an unknown format'} to ${blob.type}.`);
+    changes.push(`Upload size ${formatBytes(file.size)} → ${formatBytes(blob.size)}.`);
+
+    // Keep the original name if the browser produced a format without a known extension.
+    const extension = EXTENSIONS[blob.type];
+    const name = extension ? file.name.replace(/\.[^.]*$/, '') + '.' + extension : file.name;
+    return { original: file, file: new File([blob], name, { type: blob.type }), changes, maxEdge };
+  } finally {
+    bitmap.close();
+  }
+};
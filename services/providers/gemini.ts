@@ -0,0 +1,107 @@
+import { GoogleGenAI } from "@google/genai";
+import { ApiError } from '../api';
+import { base64ToArrayBuffer } from '../audio';
+import { withRetry, withTimeout } from '../requests';
+import { AnalysisProvider, SpeechProvider } from './types';
+
+export const ANALYSIS_MODEL = 'gemini-2.5-flash';
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Per attempt; a retried request gets a fresh timeout.
+const ANALYSIS_TIMEOUT_MS = 60 * 1000;
+const TTS_TIMEOUT_MS = 30 * 1000;
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Throws a 'safety_blocked' error if the prompt or the first candidate was blocked. Works on both the SDK and the REST response shape.
+const checkBlocked = (response: any) => {
+  const reason = response?.promptFeedback?.blockReason
+    ?? SAFETY_FINISH_REASONS.find(finishReason => finishReason === response?.candidates?.[0]?.finishReason);
+  if (reason) {
+    throw new ApiError(422, { code: 'safety_blocked', message: `The AI service blocked the request (${reason}).` });
+  }
+};
+
+const parseJsonResponse = (text: string | undefined) => {
+  try {
+    return JSON.parse(text ?? '');
+  } catch {
+    throw new ApiError(502, { code: 'invalid_response', message: 'The AI service returned a response that is not valid JSON.' });
+  }
+};
+
+// The model can be overridden to evaluate a candidate before switching ANALYSIS_MODEL.
+export const createGeminiAnalysisProvider = (apiKey: string, model: string = ANALYSIS_MODEL): AnalysisProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    model,
+    generateJson: async ({ parts, responseSchema }, signal) => {
+      const response = await withRetry(() => ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema,
+          abortSignal: withTimeout(signal, ANALYSIS_TIMEOUT_MS)
+        }
+      }), signal);
+      checkBlocked(response);
+      return parseJsonResponse(response.text);
+    },
+  };
+};
+
+export const createGeminiSpeechProvider = (apiKey: string): SpeechProvider => ({
+  name: 'gemini',
+  synthesize: async ({ text, voiceName }, signal) => {
+    if (!apiKey) throw new Error("API key is not configured.");
+
+    // The official @google/genai SDK does not yet support Text-to-Speech models.
+    // We use a direct REST API call to a preview model as a workaround.
+    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${TTS_MODEL}:generateContent`;
+    const payload = {
+        model: `models/${TTS_MODEL}`,
+        contents: [{
+            parts: [{ text }]
+        }],
+        generationConfig: {
+            responseModalities: ["AUDIO"],
+            speechConfig: {
+                voiceConfig: {
+                    prebuiltVoiceConfig: { voiceName }
+                }
+            }
+        },
+    };
+
+    const result = await withRetry(async () => {
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify(payload),
+        signal: withTimeout(signal, TTS_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        // Keep the status so that withRetry and classifyError can tell rate limits and server errors apart.
+        throw Object.assign(new Error(`API call failed with status: ${response.status}. Response: ${errorText}`), { status: response.status });
+      }
+      return response.json();
+    }, signal);
+    checkBlocked(result);
+    const part = result?.candidates?.[0]?.content?.parts?.[0];
+    const audioData = part?.inlineData?.data;
+    const mimeType = part?.inlineData?.mimeType;
+
+    if (!audioData || !mimeType?.startsWith("audio/")) {
+      throw new Error("Failed to get audio data from the model.");
+    }
+
+    const sampleRateMatch = mimeType.match(/rate=(\d+)/);
+    if (!sampleRateMatch) throw new Error("Sample rate not found in MIME type");
+
+    return { pcm: base64ToArrayBuffer(audioData), sampleRate: parseInt(sampleRateMatch[1], 10) };
+  },
+});
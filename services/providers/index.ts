@@ -0,0 +1,16 @@
+import { createLocalAnalysisProvider, createLocalSpeechProvider } from './local';
+import { createProxyAnalysisProvider, createProxySpeechProvider } from './proxy';
+import { AnalysisProvider, SpeechProvider } from './types';
+
+export * from './types';
+
+// Set AI_PROVIDER=local to replay the recorded fixtures in public/fixtures instead of calling the API server.
+const useLocalProvider = process.env.AI_PROVIDER === 'local';
+
+export const analysisProvider: AnalysisProvider = useLocalProvider
+  ? createLocalAnalysisProvider()
+  : createProxyAnalysisProvider();
+
+export const speechProvider: SpeechProvider = useLocalProvider
+  ? createLocalSpeechProvider()
+  : createProxySpeechProvider();
@@ -0,0 +1,81 @@
+import { base64ToArrayBuffer } from '../audio';
+import { sha256Hex } from '../hash';
+import { AnalysisProvider, ContentPart, GenerateJsonRequest, SpeechProvider } from './types';
+
+// Reads a fixture file by its path relative to the fixtures folder. Returns null when it does not exist.
+export type FixtureLoader = {
+  text: (path: string) => Promise<string | null>;
+  bytes: (path: string) => Promise<ArrayBuffer | null>;
+};
+
+// Sample rate of the recorded TTS fixtures, matching the Gemini TTS output.
+const FIXTURE_SAMPLE_RATE = 24000;
+
+// Loads fixtures that Vite serves from public/fixtures.
+export const fetchFixtureLoader: FixtureLoader = {
+  text: async (path) => {
+    const response = await fetch(`/fixtures/${path}`);
+    return response.ok ? response.text() : null;
+  },
+  bytes: async (path) => {
+    const response = await fetch(`/fixtures/${path}`);
+    return response.ok ? response.arrayBuffer() : null;
+  },
+};
+
+// Helper function to hash the first image of a request; null for requests without an image.
+const hashRequestImage = async (parts: ContentPart[]): Promise<string | null> => {
+  const image = parts.find(part => 'inlineData' in part);
+  if (!image || !('inlineData' in image)) return null;
+  return sha256Hex(base64ToArrayBuffer(image.inlineData.data));
+};
+
+// Where a response recorded for a request is stored: '<purpose>/<sha256 of the image bytes>-<sha256 of the prompt text, first 16 digits>.json'.
+// The prompt is part of the name because requests for one image differ per platform, e.g. each platform's repair request.
+// Returns null for requests without an image.
+export const getRecordingPath = async ({ purpose, parts }: GenerateJsonRequest): Promise<string | null> => {
+  const imageHash = await hashRequestImage(parts);
+  if (!imageHash) return null;
+  const prompt = parts.map(part => 'text' in part ? part.text : '').join('\n');
+  const promptHash = await sha256Hex(new TextEncoder().encode(prompt));
+  return `${purpose}/${imageHash}-${promptHash.slice(0, 16)}.json`;
+};
+
+// Replays recorded JSON responses, see getRecordingPath. Anything not recorded falls back to a response recorded for
+// the image alone ('<purpose>/<sha256 of the image bytes>.json') and then to '<purpose>/default.json',
+// unless exact is on, as when scoring recorded runs.
+export const createLocalAnalysisProvider = (loader: FixtureLoader = fetchFixtureLoader, exact = false): AnalysisProvider => ({
+  name: 'local',
+  model: 'local-fixtures',
+  generateJson: async (request, signal) => {
+    const recording = await getRecordingPath(request);
+    const imageHash = exact ? null : await hashRequestImage(request.parts);
+    const candidates = [
+      recording,
+      imageHash && `${request.purpose}/${imageHash}.json`,
+      exact ? null : `${request.purpose}/default.json`,
+    ].filter((path): path is string => !!path);
+
+    for (const path of candidates) {
+      const text = await loader.text(path);
+      signal?.throwIfAborted();
+      if (text !== null) return JSON.parse(text);
+    }
+    throw new Error(`No recorded fixture found for '${request.purpose}' (looked for ${candidates.join(', ') || 'nothing, the request has no image'}).`);
+  },
+});
+
+// Replays recorded PCM audio. Audio recorded for a specific text is stored as
+// 'tts/<sha256 of voice name + text>.pcm'; anything else falls back to 'tts/default.pcm'.
+export const createLocalSpeechProvider = (loader: FixtureLoader = fetchFixtureLoader): SpeechProvider => ({
+  name: 'local',
+  synthesize: async ({ text, voiceName }, signal) => {
+    const key = await sha256Hex(new TextEncoder().encode(`${voiceName}:${text}`));
+    for (const path of [`tts/${key}.pcm`, 'tts/default.pcm']) {
+      const pcm = await loader.bytes(path);
+      signal?.throwIfAborted();
+      if (pcm !== null) return { pcm, sampleRate: FIXTURE_SAMPLE_RATE };
+    }
+    throw new Error("No recorded TTS fixture found.");
+  },
+});
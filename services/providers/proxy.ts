@@ -0,0 +1,43 @@
+import { AnalyzeRequestBody, AnalyzeResponseBody, ApiError, ApiErrorBody, TtsRequestBody, TtsResponseBody } from '../api';
+import { base64ToArrayBuffer } from '../audio';
+import { withTimeout } from '../requests';
+import { ANALYSIS_MODEL } from './gemini';
+import { AnalysisProvider, SpeechProvider } from './types';
+
+// The server already times out and retries each upstream call, so this only guards against a server that stops answering.
+const PROXY_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Posts JSON to the API server and unwraps its structured error responses into an ApiError.
+// Aborting the signal closes the connection, which also stops the server's upstream request.
+const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: withTimeout(signal, PROXY_TIMEOUT_MS)
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = (payload as ApiErrorBody | null)?.error;
+    throw new ApiError(response.status, error ?? { code: 'upstream_error', message: `Server responded with status ${response.status}.` });
+  }
+  return payload as T;
+};
+
+export const createProxyAnalysisProvider = (baseUrl = '/api'): AnalysisProvider => ({
+  name: 'proxy',
+  model: ANALYSIS_MODEL,
+  generateJson: async (request, signal) => {
+    const { result } = await postJson<AnalyzeResponseBody>(`${baseUrl}/analyze`, request as AnalyzeRequestBody, signal);
+    return result;
+  },
+});
+
+export const createProxySpeechProvider = (baseUrl = '/api'): SpeechProvider => ({
+  name: 'proxy',
+  synthesize: async (request, signal) => {
+    const { audio, sampleRate } = await postJson<TtsResponseBody>(`${baseUrl}/tts`, request as TtsRequestBody, signal);
+    return { pcm: base64ToArrayBuffer(audio), sampleRate };
+  },
+});
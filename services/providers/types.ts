@@ -0,0 +1,35 @@
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+// What a JSON request is for; the local provider uses it to pick a fixture folder.
+export type RequestPurpose = 'analysis' | 'repair' | 'regenerate';
+
+export interface GenerateJsonRequest {
+  purpose: RequestPurpose;
+  parts: ContentPart[];
+  responseSchema: any;
+}
+
+export interface AnalysisProvider {
+  name: string;
+  model: string;
+  // The signal cancels the request; providers add their own timeout on top of it.
+  generateJson: (request: GenerateJsonRequest, signal?: AbortSignal) => Promise<any>;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+}
+
+// Raw 16-bit little-endian mono PCM, as returned by the Gemini TTS model.
+export interface SpeechAudio {
+  pcm: ArrayBuffer;
+  sampleRate: number;
+}
+
+export interface SpeechProvider {
+  name: string;
+  synthesize: (request: SpeechRequest, signal?: AbortSignal) => Promise<SpeechAudio>;
+}
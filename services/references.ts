@@ -0,0 +1,54 @@
+import { PolicyDefinition, ReferenceImage, ReferenceLabel } from '../types';
+import { fileToBase64 } from './analysis';
+import { REFERENCE_STORE, runRequest } from './db';
+import { MAX_REFERENCE_BYTES, prepareImage } from './preprocess';
+
+// The server accepts 20 parts per request: the image under review, the prompt and a caption plus an image per reference.
+export const MAX_REFERENCE_IMAGES = 9;
+
+// References only need to show the pattern, so they are stored small to keep every request light.
+const REFERENCE_MAX_EDGE = 768;
+
+export const REFERENCE_LABELS: Record<ReferenceLabel, string> = {
+  violation: 'Violation',
+  acceptable: 'Acceptable',
+};
+
+export const createReference = async (file: File, policyId: string, label: ReferenceLabel, caption: string): Promise<ReferenceImage> => {
+  const { file: prepared } = await prepareImage(file, REFERENCE_MAX_EDGE, MAX_REFERENCE_BYTES);
+  return {
+    policyId,
+    label,
+    caption,
+    fileName: file.name,
+    mimeType: prepared.type,
+    data: await fileToBase64(prepared),
+    enabled: true,
+    createdAt: Date.now(),
+  };
+};
+
+export const addReference = (reference: ReferenceImage): Promise<number> =>
+  runRequest(REFERENCE_STORE, 'readwrite', store => store.add(reference));
+
+export const updateReference = (reference: ReferenceImage): Promise<number> =>
+  runRequest(REFERENCE_STORE, 'readwrite', store => store.put(reference));
+
+export const deleteReference = (id: number): Promise<void> =>
+  runRequest(REFERENCE_STORE, 'readwrite', store => store.delete(id));
+
+// All references, oldest first.
+export const listReferences = (): Promise<ReferenceImage[]> =>
+  runRequest(REFERENCE_STORE, 'readonly', store => store.index('createdAt').getAll());
+
+// Enabled references for enabled policies; only these count towards the request limit.
+export const filterSendableReferences = (references: ReferenceImage[], policies: PolicyDefinition[]): ReferenceImage[] => {
+  const enabledPolicyIds = new Set(policies.filter(policy => policy.enabled).map(policy => policy.id));
+  return references.filter(reference => reference.enabled && enabledPolicyIds.has(reference.policyId));
+};
+
+// The references to send: the sendable ones, up to the request limit.
+export const selectReferences = (references: ReferenceImage[], policies: PolicyDefinition[]): ReferenceImage[] =>
+  filterSendableReferences(references, policies).slice(0, MAX_REFERENCE_IMAGES);
+
+export const toDataUrl = (reference: ReferenceImage) => `data:${reference.mimeType};base64,${reference.data}`;
@@ -0,0 +1,97 @@
+import { ApiError, ApiErrorCode } from './api';
+
+// What went wrong with a failed AI request. Each kind gets its own message for the user.
+export type RequestErrorKind = 'quota' | 'auth' | 'safety' | 'bad_json' | 'network' | 'timeout' | 'cancelled' | 'unknown';
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+const KINDS_BY_CODE: Partial<Record<ApiErrorCode, RequestErrorKind>> = {
+  rate_limited: 'quota',
+  quota_exceeded: 'quota',
+  upstream_auth: 'auth',
+  server_misconfigured: 'auth',
+  safety_blocked: 'safety',
+  invalid_response: 'bad_json',
+  upstream_timeout: 'timeout',
+};
+
+// Browsers and Node word a failed fetch differently, but always throw a TypeError.
+const NETWORK_ERROR_MESSAGE = /failed to fetch|fetch failed|networkerror|load failed|network request failed/i;
+
+// HTTP status of the failed response, from our own ApiError or the Gemini SDK's error.
+const getStatus = (e: any): number | undefined => typeof e?.status === 'number' ? e.status : undefined;
+
+export const classifyError = (e: any): RequestErrorKind => {
+  if (e instanceof ApiError) return KINDS_BY_CODE[e.code] ?? 'unknown';
+  if (e?.name === 'TimeoutError') return 'timeout';
+  if (e?.name === 'AbortError') return 'cancelled';
+  if (e instanceof SyntaxError) return 'bad_json';
+  if (e instanceof TypeError && NETWORK_ERROR_MESSAGE.test(e.message)) return 'network';
+
+  const status = getStatus(e);
+  if (status === 429 || /quota|resource.?exhausted/i.test(e?.message ?? '')) return 'quota';
+  if (status === 401 || status === 403 || /api key/i.test(e?.message ?? '')) return 'auth';
+  return 'unknown';
+};
+
+const ERROR_MESSAGES: Record<RequestErrorKind, string> = {
+  quota: 'The AI service quota or rate limit was reached. Please wait a moment and try again.',
+  auth: 'The AI service rejected the API key. Check that GEMINI_API_KEY is set correctly on the server.',
+  safety: 'The AI service blocked this request for safety reasons, so no result could be produced for this content.',
+  bad_json: 'The AI service returned a malformed response. Trying again usually helps.',
+  network: 'Could not reach the analysis server. Check your connection and that the server is running.',
+  timeout: 'The AI service took too long to respond.',
+  cancelled: 'The request was cancelled.',
+  unknown: 'The request failed.',
+};
+
+// A user-facing explanation of a failed request, with the server's wait time for rate limits
+// and the original message for errors that could not be classified.
+export const describeRequestError = (e: any): string => {
+  const kind = classifyError(e);
+  if (kind === 'quota' && e?.retryAfter) return `The AI service rate limit was reached. Please wait ${e.retryAfter} seconds and try again.`;
+  if (kind === 'unknown' && e?.message) return `${ERROR_MESSAGES.unknown} ${e.message}`;
+  return ERROR_MESSAGES[kind];
+};
+
+// Only rate limits and server-side failures are worth repeating; anything else fails the same way again.
+export const isRetryable = (e: any) => {
+  const status = getStatus(e);
+  return status === 429 || (status !== undefined && status >= 500);
+};
+
+// A signal that aborts when the caller cancels or after timeoutMs, whichever comes first.
+export const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number): AbortSignal => {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+};
+
+// Helper function to wait between retries that stops early when the request is cancelled.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs a request and repeats it with exponential backoff (1s, 2s, 4s, plus jitter) while it fails with 429 or 5xx.
+export const withRetry = async <T>(request: () => Promise<T>, signal?: AbortSignal, retries = MAX_RETRIES): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (e: any) {
+      if (attempt >= retries || !isRetryable(e) || signal?.aborted) throw e;
+      await sleep(BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * BASE_RETRY_DELAY_MS / 2, signal);
+    }
+  }
+};
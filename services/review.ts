@@ -0,0 +1,40 @@
+import { AUDIT_STORE, runRequest } from './db';
+import { toCsvField } from './csvExport';
+import { AnalysisResult, AuditEntry, Status, Verdict } from '../types';
+
+export const statusText = (status: Status) => status === 'found' ? 'Violation' : status === 'pass' ? 'Pass' : status === 'review' ? 'Needs review' : 'Not checked';
+
+const AUDIT_COLUMNS: [string, (entry: AuditEntry) => string][] = [
+  ['Reviewed At', entry => new Date(entry.reviewedAt).toISOString()],
+  ['File', entry => entry.fileName],
+  ['SHA-256', entry => entry.hash ?? ''],
+  ['Policy', entry => entry.policyLabel],
+  ['Model Verdict', entry => entry.modelStatus ?? ''],
+  ['Model Confidence', entry => entry.confidence === null ? '' : entry.confidence.toFixed(2)],
+  ['Previous Status', entry => entry.previousStatus ?? ''],
+  ['Reviewer Decision', entry => entry.decision],
+  ['Note', entry => entry.note],
+];
+
+// Returns a copy of the result with the reviewer's verdict applied to one policy.
+export const applyOverride = (result: AnalysisResult, policyId: string, decision: Verdict, note: string, reviewedAt: number): AnalysisResult => ({
+  ...result,
+  policies: result.policies.map(policy => policy.id === policyId
+    ? { ...policy, status: decision, override: { status: decision, note, reviewedAt } }
+    : policy),
+});
+
+export const addAuditEntry = (entry: AuditEntry): Promise<number> =>
+  runRequest(AUDIT_STORE, 'readwrite', store => store.add(entry));
+
+// All overrides, newest first.
+export const listAuditEntries = async (): Promise<AuditEntry[]> => {
+  const entries = await runRequest<AuditEntry[]>(AUDIT_STORE, 'readonly', store => store.index('reviewedAt').getAll());
+  return entries.reverse();
+};
+
+export const buildAuditCsv = (entries: AuditEntry[]): string => {
+  const lines = [AUDIT_COLUMNS.map(([header]) => toCsvField(header)).join(',')];
+  entries.forEach(entry => lines.push(AUDIT_COLUMNS.map(([, value]) => toCsvField(value(entry))).join(',')));
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,104 @@
+import { AnalysisResult } from '../types';
+import { pcmToWav } from './audio';
+import { PLATFORM_PROFILES } from './platforms';
+import { SpeechAudio } from './providers';
+import { statusText } from './review';
+
+const SPEECH_SETTINGS_STORAGE_KEY = 'speechSettings';
+
+// A selection of the Gemini TTS prebuilt voices.
+export const VOICES = [
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Zephyr', description: 'Bright' },
+];
+
+export type SpeechStyleId = 'cheerful' | 'neutral' | 'calm' | 'professional';
+
+// The TTS model follows a spoken instruction in front of the text.
+export const SPEECH_STYLES: Record<SpeechStyleId, { label: string; instruction: string }> = {
+  cheerful: { label: 'Cheerful', instruction: 'Say cheerfully:' },
+  neutral: { label: 'Neutral', instruction: 'Read aloud:' },
+  calm: { label: 'Calm', instruction: 'Say calmly and slowly:' },
+  professional: { label: 'Professional', instruction: 'Read in a clear, professional tone:' },
+};
+
+export interface SpeechSettings {
+  voiceName: string;
+  styleId: SpeechStyleId;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { voiceName: 'Puck', styleId: 'cheerful' };
+
+// Number of clips kept in memory; the oldest is dropped first.
+const MAX_CACHED_CLIPS = 50;
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SPEECH_SETTINGS_STORAGE_KEY) || 'null');
+    if (stored && VOICES.some(voice => voice.name === stored.voiceName) && stored.styleId in SPEECH_STYLES) {
+      return { voiceName: stored.voiceName, styleId: stored.styleId };
+    }
+  } catch {
+    // Fall through to the defaults if storage is unavailable or corrupted.
+  }
+  return DEFAULT_SPEECH_SETTINGS;
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(SPEECH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const buildSpeechText = (text: string, styleId: SpeechStyleId) => `${SPEECH_STYLES[styleId].instruction} ${text}`;
+
+// One piece of text read aloud on its own; a report is a list of segments played in order.
+export interface SpeechSegment {
+  label: string;
+  text: string;
+}
+
+// Turns the policy results and the metadata of every platform into segments, in the order they are shown.
+export const buildReportSegments = (result: AnalysisResult): SpeechSegment[] => {
+  const segments: SpeechSegment[] = result.policies.map(policy => ({
+    label: `${policy.label} policy`,
+    text: `${policy.label} policy: ${statusText(policy.status)}. ${policy.description ?? ''}`.trim(),
+  }));
+  result.metadata.forEach(entry => {
+    const platform = PLATFORM_PROFILES[entry.platformId].label;
+    if (entry.title) segments.push({ label: `${platform} title`, text: `${platform} title: ${entry.title}` });
+    if (entry.imageDescription) segments.push({ label: `${platform} description`, text: `${platform} description: ${entry.imageDescription}` });
+    if (entry.tags.length > 0) segments.push({ label: `${platform} tags`, text: `${platform} tags: ${entry.tags.map(tag => tag.replace(/_/g, ' ')).join(', ')}.` });
+  });
+  return segments;
+};
+
+// Keeps synthesized audio per voice and spoken text, so replaying the same text costs no API call.
+export const createSpeechCache = (limit = MAX_CACHED_CLIPS) => {
+  const clips = new Map<string, SpeechAudio>();
+  const keyOf = (voiceName: string, text: string) => `${voiceName}:${text}`;
+
+  return {
+    get: (voiceName: string, text: string) => clips.get(keyOf(voiceName, text)),
+    set: (voiceName: string, text: string, audio: SpeechAudio) => {
+      clips.set(keyOf(voiceName, text), audio);
+      if (clips.size > limit) clips.delete(clips.keys().next().value!);
+    },
+  };
+};
+
+// Joins clips into a single WAV file. All clips from one TTS model share a sample rate.
+export const clipsToWav = (clips: SpeechAudio[]): Blob => {
+  const samples = clips.map(clip => new Int16Array(clip.pcm));
+  const joined = new Int16Array(samples.reduce((total, current) => total + current.length, 0));
+  let offset = 0;
+  samples.forEach(current => {
+    joined.set(current, offset);
+    offset += current.length;
+  });
+  return pcmToWav(joined, clips[0]?.sampleRate ?? 24000);
+};
@@ -0,0 +1,151 @@
+import { RightsInfo } from './services/metadata/types';
+import { PlatformId } from './services/platforms';
+
+// 'review' means the model was not confident enough for a hard verdict and a person has to decide.
+export type Status = 'pass' | 'found' | 'review' | null;
+
+// A final decision, as given by the model or a reviewer.
+export type Verdict = 'pass' | 'found';
+
+export type PolicyIconName = 'copyright' | 'shield' | 'woman' | 'kids' | 'flag' | 'eye';
+
+export interface PolicyDefinition {
+  // Used to derive the '<id>Status' and '<id>Description' response keys, so it must be a plain identifier.
+  id: string;
+  label: string;
+  icon: PolicyIconName;
+  prompt: string;
+  enabled: boolean;
+  builtIn?: boolean;
+  // CSS color used for this policy's regions on the preview; a palette color is used when unset.
+  color?: string;
+}
+
+// An area of the image that a finding refers to, normalized to 0-1 of the image width and height.
+export interface Region {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PolicyResult {
+  id: string;
+  label: string;
+  icon: PolicyIconName;
+  status: Status;
+  description: string | null;
+  // The verdict the model gave and how sure it was (0-1), before the review threshold or an override applied.
+  modelStatus: Status;
+  confidence: number | null;
+  // Set once a reviewer has overridden the verdict; status then holds the reviewer's decision.
+  override: PolicyOverride | null;
+  color: string;
+  // Areas of the image where the violations were found; empty for a pass.
+  regions: Region[];
+}
+
+export interface PolicyOverride {
+  status: Verdict;
+  note: string;
+  reviewedAt: number;
+}
+
+export type ReferenceLabel = 'violation' | 'acceptable';
+
+// A labeled example image for one policy. Enabled references are sent to the model with every analyzed image.
+export interface ReferenceImage {
+  id?: number;
+  policyId: string;
+  label: ReferenceLabel;
+  caption: string;
+  fileName: string;
+  mimeType: string;
+  // Base64 encoded image bytes, downscaled when the reference was added.
+  data: string;
+  enabled: boolean;
+  createdAt: number;
+}
+
+// One reviewer override, kept in the audit log.
+export interface AuditEntry {
+  id?: number;
+  hash: string | null;
+  fileName: string;
+  policyId: string;
+  policyLabel: string;
+  modelStatus: Status;
+  confidence: number | null;
+  // The status shown before this override, which differs from modelStatus if the verdict was overridden before.
+  previousStatus: Status;
+  decision: Verdict;
+  note: string;
+  reviewedAt: number;
+}
+
+export type MetadataField = 'title' | 'imageDescription' | 'tags';
+
+export interface ValidationIssue {
+  field: MetadataField;
+  message: string;
+}
+
+// Metadata generated for one target platform, checked against that platform's rules.
+export interface PlatformMetadata {
+  platformId: PlatformId;
+  title: string | null;
+  imageDescription: string | null;
+  tags: string[];
+  // Rule violations still present after the automatic repair attempt.
+  validationIssues: ValidationIssue[];
+  // Fields that were re-generated because the first response broke a rule.
+  repairedFields: MetadataField[];
+}
+
+export interface AnalysisResult {
+  policies: PolicyResult[];
+  // One entry per requested platform; empty unless the model passed every policy.
+  metadata: PlatformMetadata[];
+}
+
+export type QueueItemStatus = 'queued' | 'running' | 'pass' | 'found' | 'review' | 'error';
+
+export interface QueueItem {
+  id: string;
+  // The original file, used for hashing, rights checks, history and exports.
+  file: File;
+  // The preprocessed copy that is sent to the model; the same object as file when nothing had to change.
+  analysisFile: File;
+  // What preprocessing changed, one line per change.
+  preprocessChanges: string[];
+  // The maximum image edge setting the analysis file was prepared with.
+  maxImageEdge: number;
+  url: string;
+  status: QueueItemStatus;
+  result: AnalysisResult | null;
+  error: string | null;
+  // SHA-256 of the image bytes, filled in once the file has been read.
+  hash: string | null;
+  // When the shown result came from history instead of a new API call, the time it was recorded.
+  cachedAt: number | null;
+  // Skip the history cache on the next run.
+  forceRefresh: boolean;
+  // Rights fields read from the file's embedded EXIF/IPTC/XMP metadata.
+  rights: RightsInfo | null;
+  // Set when the result or a later change could not be saved to history, so it will not be reused or listed there.
+  historyError: string | null;
+}
+
+export interface HistoryRecord {
+  hash: string;
+  fileName: string;
+  thumbnail: string;
+  result: AnalysisResult;
+  model: string;
+  // Identifies the settings the result was produced with, see getAnalysisConfigKey. Missing on records saved before it existed.
+  configKey?: string;
+  createdAt: number;
+}
+
+export type BatchState = 'idle' | 'running' | 'paused';
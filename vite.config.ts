@@ -4,9 +4,14 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GEMINI_API_KEY is deliberately not defined here: only the API server (server/index.ts) holds it.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`
+        }
       },
       resolve: {
         alias: {